@@ -0,0 +1,82 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Requests without a text are refused after the rate limit, so nothing is sent upstream
+const request = (headers: Record<string, string>, body: Record<string, unknown> = {}) =>
+  new Request('http://localhost/api/tts', { method: 'POST', headers, body: JSON.stringify(body) });
+
+// Statuses of a number of requests in a row
+async function send(count: number, headers: Record<string, string>): Promise<number[]> {
+  const statuses: number[] = [];
+  for (let i = 0; i < count; i++) statuses.push((await POST(request(headers))).status);
+  return statuses;
+}
+
+let POST: (request: Request) => Promise<Response>;
+
+beforeEach(async () => {
+  // A fresh module has an empty request log
+  vi.resetModules();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.useFakeTimers({ toFake: ['Date'] });
+  ({ POST } = await import('./route'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('POST /api/tts rate limit', () => {
+  it('allows 30 requests a minute per client', async () => {
+    const statuses = await send(31, { 'x-forwarded-for': '203.0.113.7' });
+
+    expect(statuses.slice(0, 30).every(status => status === 400)).toBe(true);
+    expect(statuses[30]).toBe(429);
+  });
+
+  it('allows requests again once the minute has passed', async () => {
+    await send(30, { 'x-forwarded-for': '203.0.113.7' });
+    vi.advanceTimersByTime(60 * 1000);
+
+    expect(await send(1, { 'x-forwarded-for': '203.0.113.7' })).toEqual([400]);
+  });
+
+  it('counts the address the proxy added, not those sent by the client', async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 31; i++) {
+      statuses.push(...await send(1, { 'x-forwarded-for': `198.51.100.${i}, 203.0.113.7` }));
+    }
+
+    expect(statuses[30]).toBe(429);
+  });
+
+  it('prefers the address set by the platform', async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 31; i++) {
+      statuses.push(...await send(1, { 'x-real-ip': '203.0.113.7', 'x-forwarded-for': `198.51.100.${i}` }));
+    }
+
+    expect(statuses[30]).toBe(429);
+  });
+
+  it('limits each client separately', async () => {
+    await send(30, { 'x-forwarded-for': '203.0.113.7' });
+
+    expect(await send(1, { 'x-forwarded-for': '203.0.113.8' })).toEqual([400]);
+  });
+});
+
+describe('POST /api/tts validation', () => {
+  it('refuses models that are not in the list, including inherited keys', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    for (const model of ['toString', 'constructor', '__proto__', 'unknown-model']) {
+      const response = await POST(request({ 'x-forwarded-for': '203.0.113.7' }, { text: 'Hello', model }));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toMatch(/^model must be one of/);
+    }
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Server-side proxy for the Hugging Face text-to-speech models.
+ * Keeps the API token on the server and limits how much each client can request.
+ */
+
+import { NextResponse } from 'next/server';
+
+const HF_API_TOKEN = process.env.HF_API_TOKEN || '';
+if (!HF_API_TOKEN) {
+  console.warn('HF_API_TOKEN is not set. TTS proxy requests will fail.');
+}
+
+const MODEL_URLS = {
+  'qwen2-audio': "https://api-inference.huggingface.co/models/Qwen/Qwen2-Audio",
+  'mms': "https://api-inference.huggingface.co/models/facebook/mms-tts-eng",
+};
+
+type TtsModel = keyof typeof MODEL_URLS;
+
+// MMS has one model per language, named after the ISO 639-3 code
+const MMS_LANGUAGES: Record<string, string> = {
+  en: 'eng',
+  nl: 'nld',
+  de: 'deu',
+  fr: 'fra',
+};
+
+function getModelUrl(model: TtsModel, locale: string | undefined): string {
+  if (model === 'mms' && locale) {
+    const language = MMS_LANGUAGES[locale.split('-')[0].toLowerCase()];
+    if (language) {
+      return `https://api-inference.huggingface.co/models/facebook/mms-tts-${language}`;
+    }
+  }
+  return MODEL_URLS[model];
+}
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_OPTION_LENGTH = 64;
+
+// Sliding one-minute window per client IP
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const RATE_LIMIT_MAX_REQUESTS = 30;
+// Clients tracked at once; the least recently seen are dropped beyond this
+const RATE_LIMIT_MAX_CLIENTS = 10000;
+// Request times by IP, least recently seen client first
+const requestLog = new Map<string, number[]>();
+
+/**
+ * Drops clients without requests in the window, and the least recently seen
+ * ones while there are too many
+ */
+function pruneRequestLog(now: number): void {
+  for (const [ip, times] of requestLog) {
+    if (requestLog.size <= RATE_LIMIT_MAX_CLIENTS && now - times[times.length - 1] < RATE_LIMIT_WINDOW_MS) break;
+    requestLog.delete(ip);
+  }
+}
+
+/**
+ * Records a request for the IP and reports whether it is within the limit
+ */
+function isRateLimited(ip: string): boolean {
+  const now = Date.now();
+  const recent = (requestLog.get(ip) || []).filter(time => now - time < RATE_LIMIT_WINDOW_MS);
+  const limited = recent.length >= RATE_LIMIT_MAX_REQUESTS;
+  if (!limited) recent.push(now);
+
+  // Re-inserting moves the client to the end of the log
+  requestLog.delete(ip);
+  requestLog.set(ip, recent);
+  pruneRequestLog(now);
+  return limited;
+}
+
+// Client IP headers set by the hosting platform, which replace any sent by the client
+const PLATFORM_IP_HEADERS = ['x-real-ip', 'x-nf-client-connection-ip'];
+
+/**
+ * Returns the IP of the client. The first entries of X-Forwarded-For are
+ * whatever the client sent; only the last one was added by the proxy in front
+ * of the app.
+ */
+function getClientIp(request: Request): string {
+  for (const header of PLATFORM_IP_HEADERS) {
+    const ip = request.headers.get(header)?.trim();
+    if (ip) return ip;
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean);
+  return forwardedFor?.[forwardedFor.length - 1] || 'unknown';
+}
+
+function isOptionalString(value: unknown): value is string | undefined {
+  return value === undefined || (typeof value === 'string' && value.length <= MAX_OPTION_LENGTH);
+}
+
+/**
+ * Converts `{ text, voice, locale, model }` to speech and streams the audio back
+ */
+export async function POST(request: Request) {
+  if (isRateLimited(getClientIp(request))) {
+    return NextResponse.json(
+      { error: 'Too many requests' },
+      { status: 429, headers: { 'Retry-After': String(RATE_LIMIT_WINDOW_MS / 1000) } }
+    );
+  }
+
+  let body: { text?: unknown; voice?: unknown; locale?: unknown; model?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  const { text, voice, locale, model = 'qwen2-audio' } = body;
+
+  if (typeof text !== 'string' || text.trim().length === 0) {
+    return NextResponse.json({ error: 'text is required' }, { status: 400 });
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    return NextResponse.json({ error: `text must be at most ${MAX_TEXT_LENGTH} characters` }, { status: 413 });
+  }
+  if (!isOptionalString(voice) || !isOptionalString(locale)) {
+    return NextResponse.json({ error: 'voice and locale must be short strings' }, { status: 400 });
+  }
+  // Own keys only: `in` would also accept inherited ones such as 'toString'
+  if (typeof model !== 'string' || !Object.hasOwn(MODEL_URLS, model)) {
+    return NextResponse.json({ error: `model must be one of: ${Object.keys(MODEL_URLS).join(', ')}` }, { status: 400 });
+  }
+
+  const inputs = model === 'qwen2-audio'
+    ? { text, model: "qwen2-audio-1.5b", voice: voice || "default", language: locale }
+    : text;
+
+  try {
+    const upstream = await fetch(getModelUrl(model as TtsModel, locale), {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${HF_API_TOKEN}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ inputs }),
+    });
+
+    if (!upstream.ok || !upstream.body) {
+      const errorData = await upstream.text().catch(() => '');
+      console.error('TTS upstream error:', upstream.status, errorData);
+      return NextResponse.json(
+        { error: `Upstream TTS request failed: Status: ${upstream.status} ${upstream.statusText}` },
+        { status: 502 }
+      );
+    }
+
+    return new Response(upstream.body, {
+      headers: {
+        'Content-Type': upstream.headers.get('content-type') || 'audio/wav',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error calling TTS upstream:', error);
+    return NextResponse.json({ error: 'TTS service unavailable' }, { status: 502 });
+  }
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+  StoredTestResult,
+  getTestResults,
+  deleteTestResult,
+  clearTestResults,
+} from '@/lib/resultHistory';
+import { TestMode, TEST_MODES } from '@/lib/testModes';
+import { useLocale } from '@/components/LocaleProvider';
+import ScoreTrendChart from '@/components/ScoreTrendChart';
+
+export default function History() {
+  const { bundle: { ui } } = useLocale();
+  const [results, setResults] = useState<StoredTestResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  
+  const modeLabels: Record<TestMode, string> = {
+    miniCog: ui.modeMiniCog,
+    mis: ui.modeMis,
+    orientation: ui.modeOrientation,
+    digitSpan: ui.modeDigitSpan,
+    wordListLearning: ui.modeWordListLearning,
+  };
+  
+  const loadResults = async () => {
+    try {
+      setResults(await getTestResults());
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load result history:', error);
+      setError(ui.historyUnavailable);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  useEffect(() => {
+    loadResults();
+  }, []);
+  
+  const handleDelete = async (id: number) => {
+    try {
+      await deleteTestResult(id);
+    } catch (error) {
+      console.error('Failed to delete result:', error);
+      setError(ui.deleteFailed);
+      return;
+    }
+    await loadResults();
+  };
+  
+  const handleClearAll = async () => {
+    if (!window.confirm(ui.confirmClearAll)) return;
+    try {
+      await clearTestResults();
+    } catch (error) {
+      console.error('Failed to clear result history:', error);
+      setError(ui.deleteFailed);
+      return;
+    }
+    await loadResults();
+  };
+  
+  // Scores of different test modes are not comparable, so each mode gets its own chart
+  const modesWithResults = TEST_MODES.filter(mode => results.some(result => result.testMode === mode));
+  
+  return (
+    <main className="flex min-h-screen flex-col items-center p-6 md:p-24">
+      <div className="z-10 max-w-5xl w-full font-mono text-sm">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-4xl font-bold">{ui.historyTitle}</h1>
+          <Link href="/" className="text-blue-600 hover:underline">{ui.backToTest}</Link>
+        </div>
+        
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+            <p>{error}</p>
+          </div>
+        )}
+        
+        {!isLoading && !error && results.length === 0 && (
+          <p className="bg-white p-8 rounded-lg shadow-md">{ui.noHistory}</p>
+        )}
+        
+        {modesWithResults.map(mode => (
+          <div key={mode} className="bg-white p-6 rounded-lg shadow-md mb-6">
+            <h2 className="text-xl font-bold mb-4">{ui.scoreTrend}: {modeLabels[mode]}</h2>
+            <ScoreTrendChart
+              results={results.filter(result => result.testMode === mode)}
+              label={`${ui.scoreTrend}: ${modeLabels[mode]}`}
+            />
+          </div>
+        ))}
+        
+        {results.length > 0 && (
+          <div className="bg-white p-6 rounded-lg shadow-md">
+            <ul className="divide-y divide-gray-200 mb-6">
+              {[...results].reverse().map(result => (
+                <li key={result.id} className="py-3 flex justify-between items-start gap-4">
+                  <div>
+                    <p className="font-semibold">
+                      {modeLabels[result.testMode]}: {result.score} {ui.outOf} {result.maxScore}
+                    </p>
+                    <p className="text-gray-600">{ui.completedAt}: {new Date(result.timestamp).toLocaleString()}</p>
+                    {result.answerModality === 'typed' && (
+                      <p className="text-gray-600">{ui.answerModality}: {ui.answerModalities.typed}</p>
+                    )}
+                    {result.calibration && (
+                      <p className={result.calibration.passed ? 'text-gray-600' : 'text-red-600'}>
+                        {ui.calibrationTitle}: {result.calibration.passed ? ui.checkPassed : ui.checksSkipped}
+                        {result.calibration.noiseDb !== null && ` (${ui.noiseLevel}: ${Math.round(result.calibration.noiseDb)} dB)`}
+                      </p>
+                    )}
+                    <p className="text-gray-600">{ui.wordsToRemember}: {result.wordList.join(', ')}</p>
+                    {result.answers.map((answer, index) => (
+                      <p key={index} className="italic">"{answer}"</p>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => handleDelete(result.id)}
+                    className="text-red-600 hover:underline shrink-0"
+                  >
+                    {ui.deleteEntry}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-center">
+              <button
+                onClick={handleClearAll}
+                className="px-6 py-3 rounded-full font-semibold text-white bg-red-500 hover:bg-red-600 transition-colors"
+              >
+                {ui.clearAll}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
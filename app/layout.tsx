@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { cookies } from "next/headers";
+import { LocaleProvider } from "@/components/LocaleProvider";
+import { getLocaleBundle, LOCALE_COOKIE } from "@/lib/locales";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -17,17 +20,22 @@ export const metadata: Metadata = {
   description: "Generated by create next app",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const cookieStore = await cookies();
+  const locale = getLocaleBundle(cookieStore.get(LOCALE_COOKIE)?.value);
+
   return (
-    <html lang="en">
+    <html lang={locale.speechLang}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <LocaleProvider initialLocale={locale.code}>
+          {children}
+        </LocaleProvider>
       </body>
     </html>
   );
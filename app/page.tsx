@@ -1,134 +1,361 @@
 'use client';
 
-import React, { useState } from 'react';
-import AlzheimersVoiceTest from '@/components/AlzheimersVoiceTest';
-
-interface TestResult {
-  score: number;
-  answers: string[];
-  timestamp: string;
-}
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import AlzheimersVoiceTest, { AlzheimersVoiceTestResult } from '@/components/AlzheimersVoiceTest';
+import WordListLearningTest, { WordListLearningResult } from '@/components/WordListLearningTest';
+import { TestMode, TEST_MODES, AnswerModality } from '@/lib/testModes';
+import { TestResult, TestItemResult, saveTestResult } from '@/lib/resultHistory';
+import { createFhirBundleFile } from '@/lib/fhirExport';
+import { downloadFile } from '@/lib/download';
+import { matchRecalledWords } from '@/lib/wordMatching';
+import { InterferenceTask, INTERFERENCE_TASKS } from '@/lib/interference';
+import { useLocale } from '@/components/LocaleProvider';
+import LocaleSelector from '@/components/LocaleSelector';
+import ClinicianReportForm from '@/components/ClinicianReportForm';
+import AudioCalibration from '@/components/AudioCalibration';
+import { AudioCalibrationResult } from '@/lib/audioCalibration';
+import SpeechSettingsForm from '@/components/SpeechSettingsForm';
+import {
+  SpeechSettings,
+  DEFAULT_PROFILE,
+  DEFAULT_SPEECH_SETTINGS,
+  loadSpeechSettings,
+  saveSpeechSettings,
+} from '@/lib/speechSettings';
 
 export default function Home() {
+  const { bundle: { ui } } = useLocale();
   const [testStarted, setTestStarted] = useState(false);
-  const [testCompleted, setTestCompleted] = useState(false);
+  const [testMode, setTestMode] = useState<TestMode>('miniCog');
+  // Ask the orientation questions before a Mini-Cog or MIS session
+  const [withOrientation, setWithOrientation] = useState(false);
+  // End a Mini-Cog or MIS session with the animal naming task
+  const [withFluency, setWithFluency] = useState(false);
+  const [interferenceTask, setInterferenceTask] = useState<InterferenceTask>('countBackward');
+  const [answerModality, setAnswerModality] = useState<AnswerModality>('speech');
+  // Outcome of the audio check, which comes before every test
+  const [calibration, setCalibration] = useState<AudioCalibrationResult | null>(null);
   const [testResults, setTestResults] = useState<TestResult | null>(null);
+  // Speech settings of the selected profile
+  const [profile, setProfile] = useState<string>(DEFAULT_PROFILE);
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS);
+  
+  useEffect(() => {
+    let cancelled = false;
+    loadSpeechSettings(profile).then(settings => {
+      if (!cancelled) setSpeechSettings(settings);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [profile]);
+  
+  const updateSpeechSettings = (settings: SpeechSettings) => {
+    setSpeechSettings(settings);
+    saveSpeechSettings(profile, settings).catch(error => {
+      console.error('Failed to save speech settings:', error);
+    });
+  };
+  
+  // The volume chosen in the audio check becomes the profile's volume
+  const handleCalibrationComplete = (result: AudioCalibrationResult) => {
+    setCalibration(result);
+    updateSpeechSettings({ ...speechSettings, volume: result.volume });
+  };
   
   const handleStartTest = () => {
     setTestStarted(true);
-    setTestCompleted(false);
+    setCalibration(null);
     setTestResults(null);
   };
   
-  const handleTestComplete = (score: number, answers: string[]) => {
+  // Keep the latest result and add it to the local history
+  const recordResult = (result: TestResult) => {
+    setTestResults(result);
+    saveTestResult(result).catch(error => {
+      console.error('Failed to save test result:', error);
+    });
+  };
+  
+  // Outcome of the audio check, as items of the exported result
+  const calibrationItems = (): TestItemResult[] => calibration ? [
+    { linkId: 'audio-check-passed', text: 'Audio check passed', answer: calibration.passed },
+    ...(calibration.noiseDb !== null ? [
+      { linkId: 'audio-check-noise', text: 'Background noise (dBFS)', answer: Math.round(calibration.noiseDb) },
+    ] : []),
+  ] : [];
+  
+  const handleDownloadFhir = () => {
+    if (!testResults) return;
+    const date = testResults.timestamp.slice(0, 10);
+    downloadFile(createFhirBundleFile(testResults), `${testResults.testMode}-${date}.fhir.json`);
+  };
+  
+  // The test component renders its own results screen; keep a copy of the outcome here
+  const handleTestComplete = (testResult: AlzheimersVoiceTestResult) => {
+    const items: TestItemResult[] = [
+      { linkId: 'answer-modality', text: 'Answer modality', answer: testResult.answerModality },
+      ...calibrationItems(),
+      ...(testResult.orientation?.answers ?? []).flatMap(answer => [
+        { linkId: `orientation-${answer.item}-response`, text: `Orientation: ${answer.item} response`, answer: answer.transcript },
+        { linkId: `orientation-${answer.item}`, text: `Orientation: ${answer.item} correct`, answer: answer.correct },
+      ]),
+      ...(testResult.orientation ? [
+        { linkId: 'orientation-score', text: 'Orientation score', answer: testResult.orientation.totalScore },
+      ] : []),
+      ...(testResult.interference ? [
+        { linkId: 'interference-task', text: 'Task before recall', answer: testResult.interference.task },
+        { linkId: 'interference-response', text: 'Task before recall: response', answer: testResult.interference.transcript },
+        { linkId: 'interference-score', text: 'Task before recall: correct steps', answer: testResult.interference.correct },
+      ] : []),
+      ...(testResult.matchReport ? [
+        { linkId: 'word-list', text: 'Words presented', answer: testResult.wordList.join(', ') },
+        { linkId: 'recall-response', text: 'Recall response', answer: testResult.transcript },
+        ...testResult.matchReport.matches.map((match, index) => ({
+          linkId: `recall-word-${index + 1}`,
+          text: `Recalled "${match.word}"`,
+          answer: match.matchType !== 'missed',
+        })),
+      ] : []),
+      ...(testResult.miniCog ? [
+        { linkId: 'recall-score', text: 'Word recall score', answer: testResult.miniCog.recallScore },
+        { linkId: 'clock-drawing-score', text: 'Clock drawing score', answer: testResult.miniCog.clockScore },
+      ] : []),
+      ...testResult.cuedItems.flatMap(item => [
+        { linkId: `cued-recall-${item.word}-response`, text: `Response to the cue "${item.category}"`, answer: item.transcript },
+        { linkId: `cued-recall-${item.word}`, text: `Recalled "${item.word}" after a cue`, answer: item.recalled },
+      ]),
+      ...(testResult.mis ? [
+        { linkId: 'free-recall-score', text: 'Free recall score', answer: testResult.mis.freeRecall },
+        { linkId: 'cued-recall-score', text: 'Cued recall score', answer: testResult.mis.cuedRecall },
+      ] : []),
+      ...(testResult.fluency ? [
+        { linkId: 'animal-fluency-response', text: 'Animal naming response', answer: testResult.fluency.words.map(word => word.word).join(', ') },
+        { linkId: 'animal-fluency-score', text: 'Animals named in one minute', answer: testResult.fluency.validCount },
+        { linkId: 'animal-fluency-perseverations', text: 'Repeated animals', answer: testResult.fluency.perseverations },
+        { linkId: 'animal-fluency-intrusions', text: 'Words that are not animals', answer: testResult.fluency.intrusions },
+        ...testResult.fluency.binCounts.map((count, index) => ({
+          linkId: `animal-fluency-bin-${index + 1}`,
+          text: `Animals named in interval ${index + 1}`,
+          answer: count,
+        })),
+      ] : []),
+      ...[testResult.digitSpan?.forward, testResult.digitSpan?.backward].flatMap(span => span ? [
+        ...span.trials.flatMap((trial, index) => [
+          { linkId: `digit-span-${span.direction}-${index + 1}-digits`, text: `Digits ${span.direction}, trial ${index + 1}: digits spoken`, answer: trial.digits.join(' ') },
+          { linkId: `digit-span-${span.direction}-${index + 1}-response`, text: `Digits ${span.direction}, trial ${index + 1}: response`, answer: trial.transcript },
+          { linkId: `digit-span-${span.direction}-${index + 1}`, text: `Digits ${span.direction}, trial ${index + 1}: correct`, answer: trial.correct },
+        ]),
+        { linkId: `digit-span-${span.direction}`, text: `Longest digit span ${span.direction}`, answer: span.longestSpan },
+      ] : []),
+    ];
+    
     const result: TestResult = {
-      score,
-      answers,
-      timestamp: new Date().toLocaleString()
+      testMode: testResult.mode,
+      locale: testResult.locale,
+      score: testResult.totalScore,
+      maxScore: testResult.maxScore,
+      // The free recall, then the answer to each category cue
+      answers: testResult.matchReport ? [testResult.transcript, ...testResult.cuedItems.map(item => item.transcript)] : [],
+      matchReports: testResult.matchReport
+        ? [testResult.matchReport, ...testResult.cuedItems.map(item => matchRecalledWords([item.word], item.transcript, testResult.locale))]
+        : [],
+      attempts: testResult.recallAttempts,
+      wordList: testResult.wordList,
+      items,
+      fluency: testResult.fluency,
+      orientation: testResult.orientation,
+      interference: testResult.interference,
+      digitSpan: testResult.digitSpan,
+      recallAudio: testResult.recallAudio,
+      speechTiming: testResult.speechTiming,
+      answerModality: testResult.answerModality,
+      calibration,
+      timestamp: new Date().toISOString()
     };
     
-    setTestResults(result);
-    setTestCompleted(true);
+    recordResult(result);
+  };
+  
+  const handleWordListComplete = (testResult: WordListLearningResult) => {
+    const items: TestItemResult[] = [
+      { linkId: 'answer-modality', text: 'Answer modality', answer: testResult.answerModality },
+      ...calibrationItems(),
+      { linkId: 'word-list', text: 'Words presented', answer: testResult.wordList.join(', ') },
+      ...testResult.trialTranscripts.flatMap((transcript, index) => [
+        { linkId: `trial-${index + 1}-response`, text: `Trial ${index + 1} recall response`, answer: transcript },
+        { linkId: `trial-${index + 1}-score`, text: `Trial ${index + 1} score`, answer: testResult.trialScores[index] },
+      ]),
+      { linkId: 'clock-drawing-score', text: 'Clock drawing score', answer: testResult.clockScore },
+      { linkId: 'delayed-recall-response', text: 'Delayed recall response', answer: testResult.delayedTranscript },
+      { linkId: 'delayed-recall-score', text: 'Delayed recall score', answer: testResult.delayedRecall },
+      // Unclear yes/no answers were not answered
+      ...testResult.recognitionAnswers
+        .filter(item => item.answer !== null)
+        .map(item => ({
+          linkId: `recognition-${item.word}`,
+          text: `Recognized "${item.word}"`,
+          answer: item.answer as boolean,
+        })),
+    ];
+    
+    const result: TestResult = {
+      testMode: 'wordListLearning',
+      locale: testResult.locale,
+      score: testResult.trialTotal,
+      maxScore: testResult.wordList.length * testResult.trialScores.length,
+      answers: [...testResult.trialTranscripts, testResult.delayedTranscript],
+      matchReports: [...testResult.trialReports, testResult.delayedReport],
+      attempts: testResult.attempts,
+      wordList: testResult.wordList,
+      items,
+      recallAudio: null,
+      speechTiming: null,
+      answerModality: testResult.answerModality,
+      calibration,
+      timestamp: new Date().toISOString()
+    };
+    
+    recordResult(result);
   };
   
-  const handleRestart = () => {
-    setTestStarted(false);
-    setTestCompleted(false);
+  const modeLabels: Record<TestMode, string> = {
+    miniCog: ui.modeMiniCog,
+    mis: ui.modeMis,
+    orientation: ui.modeOrientation,
+    digitSpan: ui.modeDigitSpan,
+    wordListLearning: ui.modeWordListLearning,
   };
   
   return (
     <main className="flex min-h-screen flex-col items-center justify-between p-6 md:p-24">
       <div className="z-10 max-w-5xl w-full items-center justify-between font-mono text-sm">
-        <h1 className="text-4xl font-bold text-center mb-8">Voice Alzheimer's Test</h1>
+        <div className="flex justify-between items-center mb-4">
+          <Link href="/history" className="text-blue-600 hover:underline">{ui.viewHistory}</Link>
+          <LocaleSelector />
+        </div>
+        <h1 className="text-4xl font-bold text-center mb-8">{ui.appTitle}</h1>
         
         {!testStarted ? (
           <div className="bg-white p-8 rounded-lg shadow-md">
-            <h2 className="text-2xl font-bold mb-4">Welcome to the Voice Alzheimer's Test</h2>
-            <p className="mb-6">
-              This application administers a simple memory test using voice interaction.
-              You will hear three words and then be asked to recall them.
-            </p>
-            <p className="mb-6">
-              This test is based on the word recall portion of the Mini-Cog assessment,
-              which is used as a quick screening tool for cognitive impairment.
-            </p>
-            <p className="mb-8 text-sm text-gray-600">
-              Note: This is not a diagnostic tool. If you have concerns about memory or cognitive function,
-              please consult with a healthcare professional.
-            </p>
+            <h2 className="text-2xl font-bold mb-4">{ui.welcomeTitle}</h2>
+            <p className="mb-6">{ui.welcomeIntro}</p>
+            <p className="mb-6">{ui.welcomeMiniCog}</p>
+            <p className="mb-8 text-sm text-gray-600">{ui.disclaimer}</p>
+            <fieldset className="mb-8">
+              <legend className="font-semibold mb-2">{ui.testModeLabel}</legend>
+              {TEST_MODES.map(mode => (
+                <label key={mode} className="flex items-center gap-2 mb-1">
+                  <input
+                    type="radio"
+                    name="testMode"
+                    value={mode}
+                    checked={testMode === mode}
+                    onChange={() => setTestMode(mode)}
+                  />
+                  {modeLabels[mode]}
+                </label>
+              ))}
+              {(testMode === 'miniCog' || testMode === 'mis') && (
+                <label className="flex items-center gap-2 mt-3">
+                  <input
+                    type="checkbox"
+                    checked={withOrientation}
+                    onChange={event => setWithOrientation(event.target.checked)}
+                  />
+                  {ui.orientationPrefix}
+                </label>
+              )}
+              {(testMode === 'miniCog' || testMode === 'mis') && (
+                <label className="flex items-center gap-2 mt-3">
+                  <input
+                    type="checkbox"
+                    checked={withFluency}
+                    onChange={event => setWithFluency(event.target.checked)}
+                  />
+                  {ui.fluencyOption}
+                </label>
+              )}
+              {(testMode === 'miniCog' || testMode === 'mis') && (
+                <label className="flex items-center gap-2 mt-3">
+                  {ui.interferenceTask}
+                  <select
+                    value={interferenceTask}
+                    onChange={event => setInterferenceTask(event.target.value as InterferenceTask)}
+                    className="border border-gray-300 rounded px-2 py-1"
+                  >
+                    {INTERFERENCE_TASKS.map(task => (
+                      <option key={task} value={task}>{ui.interferenceTasks[task]}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center gap-2 mt-3">
+                <input
+                  type="checkbox"
+                  checked={answerModality === 'typed'}
+                  onChange={event => setAnswerModality(event.target.checked ? 'typed' : 'speech')}
+                />
+                {ui.typeAnswers}
+              </label>
+            </fieldset>
+            <SpeechSettingsForm
+              profile={profile}
+              settings={speechSettings}
+              onProfileChange={setProfile}
+              onChange={updateSpeechSettings}
+            />
             <div className="flex justify-center">
               <button
                 onClick={handleStartTest}
                 className="px-6 py-3 rounded-full font-semibold text-white bg-blue-500 hover:bg-blue-600 transition-colors"
               >
-                Start Test
+                {ui.startTest}
               </button>
             </div>
           </div>
-        ) : testCompleted ? (
-          <div className="bg-white p-8 rounded-lg shadow-md">
-            <h2 className="text-2xl font-bold mb-4">Test Results</h2>
-            {testResults && (
-              <>
-                <div className="mb-6">
-                  <p className="text-lg mb-2">
-                    <span className="font-semibold">Score:</span> {testResults.score} out of 3
-                  </p>
-                  <p className="text-lg mb-2">
-                    <span className="font-semibold">Your response:</span> "{testResults.answers[0]}"
-                  </p>
-                  <p className="text-sm text-gray-600">
-                    Completed at: {testResults.timestamp}
-                  </p>
-                </div>
-                
-                <div className="mb-6 p-4 bg-gray-50 rounded-lg">
-                  <h3 className="font-semibold mb-2">Interpretation:</h3>
-                  {testResults.score === 3 ? (
-                    <p className="text-green-600">
-                      Perfect recall! You remembered all three words correctly.
-                    </p>
-                  ) : testResults.score === 2 ? (
-                    <p className="text-blue-600">
-                      Good recall. You remembered two out of three words.
-                    </p>
-                  ) : testResults.score === 1 ? (
-                    <p className="text-yellow-600">
-                      Partial recall. You remembered one out of three words.
-                    </p>
-                  ) : (
-                    <p className="text-red-600">
-                      No words recalled. This may indicate a need for further assessment.
-                    </p>
-                  )}
-                </div>
-                
-                <p className="mb-8 text-sm text-gray-600">
-                  Remember: This is a simple screening test and not a diagnosis.
-                  If you have concerns about memory, please consult a healthcare professional.
-                </p>
-              </>
-            )}
+        ) : !calibration ? (
+          <AudioCalibration
+            answerModality={answerModality}
+            speechSettings={speechSettings}
+            onComplete={handleCalibrationComplete}
+          />
+        ) : (
+          testMode === 'wordListLearning'
+            ? <WordListLearningTest answerModality={answerModality} speechSettings={speechSettings} onComplete={handleWordListComplete} />
+            : (
+              <AlzheimersVoiceTest
+                mode={testMode}
+                withOrientation={withOrientation}
+                withFluency={withFluency}
+                interferenceTask={interferenceTask}
+                answerModality={answerModality}
+                speechSettings={speechSettings}
+                onComplete={handleTestComplete}
+              />
+            )
+        )}
+        
+        {testStarted && testResults && (
+          <div className="max-w-2xl mx-auto">
+            <ClinicianReportForm result={testResults} />
             <div className="flex justify-center">
               <button
-                onClick={handleRestart}
-                className="px-6 py-3 rounded-full font-semibold text-white bg-blue-500 hover:bg-blue-600 transition-colors"
+                onClick={handleDownloadFhir}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold py-2 px-4 rounded"
               >
-                Take Test Again
+                {ui.downloadFhir}
               </button>
             </div>
           </div>
-        ) : (
-          <AlzheimersVoiceTest onTestComplete={handleTestComplete} />
         )}
       </div>
       
       <footer className="mt-16 text-center text-gray-500 text-sm">
-        <p>
-          This application uses the Sesame CSM voice model via Hugging Face Inference API.
-        </p>
+        <p>{ui.footer}</p>
         <p className="mt-2">
-          © {new Date().getFullYear()} Voice Alzheimer's Test
+          © {new Date().getFullYear()} {ui.appTitle}
         </p>
       </footer>
     </main>
@@ -1,185 +1,725 @@
-import React, { useState, useEffect } from 'react';
-import { speakWithFallback } from '@/lib/huggingFaceApi';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { speakWithFallback, prefetchSpeech } from '@/lib/huggingFaceApi';
+import { interpretMiniCog, ClockScore, MiniCogScore, MAX_RECALL_SCORE } from '@/lib/miniCog';
+import { interpretMis, MisScore } from '@/lib/mis';
+import { RecallMatchReport } from '@/lib/wordMatching';
+import { startRecording, isRecordingSupported, AudioRecording } from '@/lib/audioRecorder';
+import { analyzeRecallAudio, SpeechTimingMetrics } from '@/lib/speechTiming';
+import { SpeechSettings, DEFAULT_SPEECH_SETTINGS, toTtsOptions } from '@/lib/speechSettings';
+import { startRecognition, getSpeechRecognitionConstructor, RecognitionSession } from '@/lib/speechRecognition';
+import { createTestSession, isAbortError, untilAborted, TestSession } from '@/lib/testSession';
+import {
+  MINI_COG_PROTOCOL,
+  MIS_PROTOCOL,
+  ORIENTATION_PROTOCOL,
+  DIGIT_SPAN_PROTOCOL,
+  withOrientationPrefix,
+  withFluencySuffix,
+  Protocol,
+  ListenStep,
+  FluencyStep,
+} from '@/lib/protocols';
+import { runProtocol, initialProtocolState, ProtocolState, ProtocolEnvironment } from '@/lib/protocolRunner';
+import {
+  ClockDrawingResult,
+  CuedRecallItem,
+  DigitSpanProtocolScore,
+  MiniCogProtocolScore,
+  MisProtocolScore,
+} from '@/lib/protocolScorers';
+import { ResponseAttempt, ResponseAttemptOutcome } from '@/lib/responseAttempts';
+import { FluencyScore, FluencyWordKind, TranscriptSegment } from '@/lib/fluency';
+import { getLexicon } from '@/lib/lexicons';
+import { getClinicLocation, OrientationScore } from '@/lib/orientation';
+import { InterferenceScore, InterferenceTask } from '@/lib/interference';
+import { DigitSpanScore } from '@/lib/digitSpan';
+import { AnswerModality } from '@/lib/testModes';
+import ClockDrawing from '@/components/ClockDrawing';
+import TypedAnswer from '@/components/TypedAnswer';
+import { useLocale } from '@/components/LocaleProvider';
+
+// Tests this component administers
+export type VoiceTestMode = 'miniCog' | 'mis' | 'orientation' | 'digitSpan';
+
+export interface AlzheimersVoiceTestResult {
+  mode: VoiceTestMode;
+  totalScore: number;
+  maxScore: number;
+  screenPositive: boolean;
+  // Score breakdown of the administered recall test, if any
+  miniCog: MiniCogScore | null;
+  mis: MisScore | null;
+  // Orientation questions, standalone or asked before the recall test
+  orientation: OrientationScore | null;
+  // MIS words missed in free recall and the answers to their category cues
+  cuedItems: CuedRecallItem[];
+  // Animal naming task, when the protocol includes it
+  fluency: FluencyScore | null;
+  // Task between word presentation and recall
+  interference: InterferenceScore | null;
+  digitSpan: { forward: DigitSpanScore | null; backward: DigitSpanScore | null } | null;
+  locale: string;
+  // How the answers were given
+  answerModality: AnswerModality;
+  wordList: string[];
+  transcript: string;
+  matchReport: RecallMatchReport | null;
+  clockDrawing: string | null;
+  recallAudio: Blob | null;
+  speechTiming: SpeechTimingMetrics | null;
+  // Listening attempts of the recall and the cues, including re-prompts and give-ups
+  recallAttempts: ResponseAttempt[];
+}
+
+// Listen step waiting for the outcome of a recognition session
+interface PendingResponse {
+  resolve: (transcript: string) => void;
+  reject: (error: unknown) => void;
+}
+
+// Id of the listen step whose response is recorded and timed
+const RECORDED_RESPONSE_ID = 'recall';
+// Id of the fluency step of the protocols
+const FLUENCY_ID = 'animalFluency';
+// Id of the orientation step
+const ORIENTATION_ID = 'orientation';
+// Id of the interference step of the recall protocols
+const INTERFERENCE_ID = 'interference';
+
+const PROTOCOLS: Record<VoiceTestMode, Protocol> = {
+  miniCog: MINI_COG_PROTOCOL,
+  mis: MIS_PROTOCOL,
+  orientation: ORIENTATION_PROTOCOL,
+  digitSpan: DIGIT_SPAN_PROTOCOL,
+};
 
 interface AlzheimersVoiceTestProps {
-  onComplete?: (score: number, maxScore: number) => void;
+  // Defaults to the Mini-Cog
+  mode?: VoiceTestMode;
+  // Ask the orientation questions before a recall test
+  withOrientation?: boolean;
+  // End a Mini-Cog or MIS with the animal naming task
+  withFluency?: boolean;
+  // Task before recall; defaults to counting backward
+  interferenceTask?: InterferenceTask;
+  // Defaults to spoken answers; answers are typed where speech recognition is unsupported
+  answerModality?: AnswerModality;
+  // Rate, pitch, volume and voice of the spoken prompts
+  speechSettings?: SpeechSettings;
+  onComplete?: (result: AlzheimersVoiceTestResult) => void;
+  // Called with every protocol state, e.g. to follow the phases
+  onStateChange?: (state: ProtocolState) => void;
 }
 
-const AlzheimersVoiceTest: React.FC<AlzheimersVoiceTestProps> = ({ onComplete }) => {
-  // Test states
-  const [testActive, setTestActive] = useState<boolean>(false);
-  const [testPhase, setTestPhase] = useState<'intro' | 'wordPresentation' | 'distraction' | 'recall' | 'results'>('intro');
-  const [currentWordIndex, setCurrentWordIndex] = useState<number>(0);
-  const [score, setScore] = useState<number>(0);
-  const [userAnswers, setUserAnswers] = useState<string[]>([]);
-  const [instructions, setInstructions] = useState<string>('This test will assess your memory using voice interaction. You will hear three words and be asked to recall them.');
+const AlzheimersVoiceTest: React.FC<AlzheimersVoiceTestProps> = ({
+  mode = 'miniCog',
+  withOrientation = false,
+  withFluency = false,
+  interferenceTask = 'countBackward',
+  answerModality = 'speech',
+  speechSettings = DEFAULT_SPEECH_SETTINGS,
+  onComplete,
+  onStateChange,
+}) => {
+  const { bundle } = useLocale();
+  const { ui, prompts } = bundle;
+  // Kept stable across renders so the prefetch only reruns when the settings change
+  const ttsOptions = useMemo(() => toTtsOptions(speechSettings, bundle.speechLang), [speechSettings, bundle.speechLang]);
+  // The animal naming task only follows the recall tests
+  const fluencyAdded = withFluency && (mode === 'miniCog' || mode === 'mis');
+  
+  // Test state, driven by the protocol of the mode
+  const [protocolState, setProtocolState] = useState<ProtocolState>(initialProtocolState);
+  const testActive = protocolState.status === 'running';
+  const testPhase = protocolState.status === 'completed' ? 'results' : protocolState.phase ?? 'intro';
+  const currentWordIndex = protocolState.currentWordIndex ?? 0;
+  const miniCog = mode === 'miniCog' ? protocolState.score as MiniCogProtocolScore | null : null;
+  const mis = mode === 'mis' ? protocolState.score as MisProtocolScore | null : null;
+  const digitSpan = mode === 'digitSpan' ? protocolState.score as DigitSpanProtocolScore | null : null;
+  const clockResult = protocolState.taskResults.clockDrawing as ClockDrawingResult | undefined;
+  const fluency = (protocolState.taskResults[FLUENCY_ID] as FluencyScore | undefined) ?? null;
+  const orientation = (protocolState.taskResults[ORIENTATION_ID] as OrientationScore | undefined) ?? null;
+  const interference = (protocolState.taskResults[INTERFERENCE_ID] as InterferenceScore | undefined) ?? null;
+  // Last words heard in free recall; later cue answers replace the live transcript
+  const recallTranscript = protocolState.attempts.filter(attempt => attempt.id === RECORDED_RESPONSE_ID).pop()?.transcript ?? '';
+  
+  // Running session; cancelling it stops the protocol with its speech, timers and listening
+  const sessionRef = useRef<TestSession | null>(null);
+  
+  // Pending listen and task steps, settled from recognition and clock drawing handlers
+  const pendingResponseRef = useRef<PendingResponse | null>(null);
+  const taskResolverRef = useRef<((result: ClockDrawingResult) => void) | null>(null);
   
   // Speech recognition
-  const [recognition, setRecognition] = useState<any>(null);
+  const recognitionSessionRef = useRef<RecognitionSession | null>(null);
+  const listenStepRef = useRef<ListenStep | null>(null);
   const [isListening, setIsListening] = useState<boolean>(false);
+  // End of the running fluency step, for the countdown
+  const [fluencyEndsAt, setFluencyEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState<number>(() => Date.now());
   const [transcript, setTranscript] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
+  const [recognitionSupported, setRecognitionSupported] = useState<boolean>(true);
+  const modality: AnswerModality = recognitionSupported ? answerModality : 'typed';
+  // Typed animal names of the running fluency step, timed from its start
+  const typedFluencyRef = useRef<{ startedAt: number; segments: TranscriptSegment[] } | null>(null);
+  // Text being spoken, shown as a caption
+  const [caption, setCaption] = useState<string | null>(null);
   
-  // Word lists for the test
-  const wordLists = [
-    ['Apple', 'Watch', 'Penny'],
-    ['Banana', 'Sunset', 'Chair'],
-    ['River', 'Nation', 'Finger'],
-    ['Leader', 'Season', 'Table'],
-    ['Village', 'Kitchen', 'Baby'],
-    ['Mountain', 'Glasses', 'Paper']
-  ];
+  // Recording of the recall response, kept so the clinician can check the transcript by ear
+  const recordingRef = useRef<Promise<AudioRecording> | null>(null);
+  const [recallAudio, setRecallAudio] = useState<Blob | null>(null);
+  const [recallAudioUrl, setRecallAudioUrl] = useState<string | null>(null);
+  const lastPromptEndedAtRef = useRef<number>(0);
+  const [speechTiming, setSpeechTiming] = useState<SpeechTimingMetrics | null>(null);
   
-  // Randomly select a word list for this test session
-  const [selectedWordList] = useState<string[]>(() => {
-    const randomIndex = Math.floor(Math.random() * wordLists.length);
-    return wordLists[randomIndex];
-  });
+  // Randomly select a word list for this test session; the index is kept so a
+  // language change picks the matching list of the new locale
+  const [wordListIndex] = useState<number>(() => Math.floor(Math.random() * bundle.wordLists.length));
+  const selectedWordList = useMemo(() => {
+    if (mode === 'orientation' || mode === 'digitSpan') return [];
+    return mode === 'mis'
+      ? bundle.misWordLists[wordListIndex % bundle.misWordLists.length].map(item => item.word)
+      : bundle.wordLists[wordListIndex % bundle.wordLists.length];
+  }, [bundle, wordListIndex, mode]);
   
-  // Initialize speech recognition
+  // Category of each MIS word, used for the cues
+  const categories = useMemo<Record<string, string>>(
+    () => mode === 'mis'
+      ? Object.fromEntries(bundle.misWordLists[wordListIndex % bundle.misWordLists.length].map(item => [item.word, item.category]))
+      : {},
+    [bundle, wordListIndex, mode]
+  );
+  
+  // Synthesize everything the session will say while the intro screen is showing
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      // @ts-ignore - Web Speech API types
-      const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-      
-      if (SpeechRecognition) {
-        const recognitionInstance = new SpeechRecognition();
-        recognitionInstance.continuous = false;
-        recognitionInstance.interimResults = false;
-        recognitionInstance.lang = 'en-US';
-        
-        recognitionInstance.onresult = (event: any) => {
-          const transcript = event.results[0][0].transcript;
-          setTranscript(transcript);
-          processUserResponse(transcript);
-        };
-        
-        recognitionInstance.onerror = (event: any) => {
-          console.error('Speech recognition error:', event.error);
-          setError(`Speech recognition error: ${event.error}`);
-          setIsListening(false);
-        };
-        
-        recognitionInstance.onend = () => {
-          setIsListening(false);
-        };
-        
-        setRecognition(recognitionInstance);
-      } else {
-        setError('Speech recognition is not supported in this browser.');
-      }
+    const orientationPrompts = [
+      prompts.orientationIntroduction,
+      prompts.orientationYear,
+      prompts.orientationSeason,
+      prompts.orientationDate,
+      prompts.orientationDayOfWeek,
+      prompts.orientationMonth,
+      prompts.orientationCountry,
+      prompts.orientationCity,
+    ];
+    const interferencePrompt = prompts[interferenceTask].replace('{word}', bundle.interference.spellWord);
+    const sessionPrompts: Record<VoiceTestMode, string[]> = {
+      miniCog: [
+        prompts.introduction,
+        ...selectedWordList,
+        prompts.clockDrawing,
+        interferencePrompt,
+        prompts.recall,
+      ],
+      mis: [
+        prompts.misIntroduction,
+        ...selectedWordList,
+        interferencePrompt,
+        prompts.misRecall,
+        ...Object.values(categories).map(category => prompts.categoryCue.replace('{category}', category)),
+      ],
+      orientation: orientationPrompts,
+      // The sequences are random, but each is spoken one digit at a time, so every digit is cached
+      digitSpan: [
+        prompts.digitSpanForwardIntroduction,
+        prompts.digitSpanBackwardIntroduction,
+        ...Array.from({ length: 10 }, (_, digit) => String(digit)),
+      ],
+    };
+    prefetchSpeech([
+      ...(withOrientation && mode !== 'orientation' ? orientationPrompts : []),
+      ...sessionPrompts[mode],
+      ...(fluencyAdded ? [prompts.fluency] : []),
+    ], ttsOptions);
+  }, [bundle, mode, ttsOptions, selectedWordList, categories, withOrientation, fluencyAdded, interferenceTask]);
+  
+  // Tick the fluency countdown
+  useEffect(() => {
+    if (fluencyEndsAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [fluencyEndsAt]);
+  
+  // Check for speech recognition support
+  useEffect(() => {
+    if (!getSpeechRecognitionConstructor()) {
+      setRecognitionSupported(false);
     }
   }, []);
   
-  // Process the user's spoken response
-  const processUserResponse = (text: string) => {
-    const lowerText = text.toLowerCase();
-    const correctWords = selectedWordList.filter(word => 
-      lowerText.includes(word.toLowerCase())
-    );
+  // Stop the running session, if any; the recall recording is dropped
+  const cancelSession = () => {
+    sessionRef.current?.cancel();
+    sessionRef.current = null;
+    pendingResponseRef.current = null;
+    taskResolverRef.current = null;
+    typedFluencyRef.current = null;
     
-    setScore(correctWords.length);
+    const pendingRecording = recordingRef.current;
+    recordingRef.current = null;
+    pendingRecording?.then(recording => recording.stop()).catch(error => {
+      console.error('Failed to stop recording:', error);
+    });
+  };
+  
+  // Leaving the page ends the session
+  useEffect(() => cancelSession, []);
+  
+  // Stop the recall recording, if one is running, and keep the audio
+  const finishRecording = async (): Promise<{ audio: Blob; startedAt: number } | null> => {
+    const pendingRecording = recordingRef.current;
+    recordingRef.current = null;
+    if (!pendingRecording) return null;
     
-    if (testPhase === 'recall') {
-      setTestPhase('results');
+    try {
+      const recording = await pendingRecording;
+      const audio = await recording.stop();
+      setRecallAudio(audio);
+      return { audio, startedAt: recording.startedAt };
+    } catch (error) {
+      console.error('Failed to record recall response:', error);
+      return null;
     }
   };
   
-  // Start listening for user's spoken response
+  // Create a playback URL for the recording and release it when no longer needed
+  useEffect(() => {
+    if (!recallAudio) {
+      setRecallAudioUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(recallAudio);
+    setRecallAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [recallAudio]);
+  
+  // Process the user's spoken response
+  const processUserResponse = async (text: string) => {
+    // Wait for the recording so it and its timing analysis are part of the reported result
+    const recording = await finishRecording();
+    if (recording) {
+      try {
+        const promptToRecordingMs = recording.startedAt - lastPromptEndedAtRef.current;
+        setSpeechTiming(await analyzeRecallAudio(recording.audio, promptToRecordingMs, text));
+      } catch (error) {
+        console.error('Speech timing analysis failed:', error);
+      }
+    }
+    
+    settleResponse(pending => pending.resolve(text));
+  };
+  
+  // Hand the outcome of a listening attempt back to the protocol
+  const settleResponse = (settle: (pending: PendingResponse) => void) => {
+    const pending = pendingResponseRef.current;
+    pendingResponseRef.current = null;
+    if (pending) settle(pending);
+  };
+  
+  // Recognition results arrive after re-renders, so they call the latest handler through a ref
+  const processUserResponseRef = useRef(processUserResponse);
+  processUserResponseRef.current = processUserResponse;
+  
+  // Report the combined result once the test reaches the results phase
+  useEffect(() => {
+    const score = protocolState.score;
+    const recall = miniCog ?? mis;
+    if (testPhase === 'results' && score && onComplete) {
+      onComplete({
+        mode,
+        totalScore: score.totalScore,
+        maxScore: score.maxScore,
+        screenPositive: recall?.screenPositive ?? false,
+        miniCog: miniCog && { recallScore: miniCog.recallScore, clockScore: miniCog.clockScore, totalScore: miniCog.totalScore, maxScore: miniCog.maxScore, screenPositive: miniCog.screenPositive },
+        mis: mis && { freeRecall: mis.freeRecall, cuedRecall: mis.cuedRecall, totalScore: mis.totalScore, maxScore: mis.maxScore, screenPositive: mis.screenPositive },
+        orientation,
+        cuedItems: mis?.cuedItems ?? [],
+        fluency,
+        interference,
+        digitSpan: digitSpan && { forward: digitSpan.forward, backward: digitSpan.backward },
+        locale: bundle.code,
+        answerModality: modality,
+        wordList: selectedWordList,
+        transcript: recallTranscript,
+        matchReport: recall?.matchReport ?? null,
+        clockDrawing: clockResult?.drawing ?? null,
+        recallAudio,
+        speechTiming,
+        recallAttempts: protocolState.attempts,
+      });
+    }
+  }, [testPhase]);
+  
+  // Start listening for user's spoken response, with the timing of the current listen step
   const startListening = () => {
-    if (recognition && !isListening) {
-      setTranscript('');
-      setIsListening(true);
-      recognition.start();
+    if (isListening) return;
+    
+    const recordResponse = listenStepRef.current?.id === RECORDED_RESPONSE_ID;
+    setTranscript('');
+    if (recordResponse) setRecallAudio(null);
+    setIsListening(true);
+    
+    const session = startRecognition(bundle.speechLang, {
+      silenceTimeoutMs: listenStepRef.current?.silenceTimeoutMs,
+      maxResponseMs: listenStepRef.current?.maxResponseMs,
+      onInterim: setTranscript,
+      signal: sessionRef.current?.signal,
+    });
+    recognitionSessionRef.current = session;
+    
+    if (recordResponse && isRecordingSupported()) {
+      recordingRef.current = startRecording();
+      recordingRef.current.catch(error => {
+        console.error('Failed to start recording:', error);
+      });
     }
+    
+    session.result
+      .then(text => {
+        setTranscript(text);
+        if (text) {
+          processUserResponseRef.current(text);
+        } else {
+          // Nothing recognized: stop the recording but keep it, so the clinician can hear
+          // what the recognizer missed; a re-prompt records afresh, the protocol decides whether to re-prompt
+          finishRecording().then(() => settleResponse(pending => pending.resolve('')));
+        }
+      })
+      .catch(error => {
+        // A cancelled session has already dropped the recording and the pending step
+        if (isAbortError(error)) return;
+        finishRecording().then(() => settleResponse(pending => pending.reject(error)));
+      })
+      .finally(() => {
+        recognitionSessionRef.current = null;
+        setIsListening(false);
+      });
   };
   
-  // Stop listening
+  // Stop listening; what was recognized so far becomes the response
   const stopListening = () => {
-    if (recognition && isListening) {
-      recognition.stop();
-      setIsListening(false);
+    recognitionSessionRef.current?.stop();
+  };
+  
+  // Take a typed answer: a line of the fluency step, or the response to a listen step
+  const submitTypedAnswer = (text: string) => {
+    const fluencyInput = typedFluencyRef.current;
+    if (fluencyInput) {
+      if (!text) return;
+      fluencyInput.segments.push({ text, offsetMs: Date.now() - fluencyInput.startedAt });
+      setTranscript(fluencyInput.segments.map(segment => segment.text).join(', '));
+      return;
     }
+    
+    setTranscript(text);
+    setIsListening(false);
+    settleResponse(pending => pending.resolve(text));
   };
   
+  // Listen for the whole fluency step; each final result is timed from the start
+  const listenForDuration = (step: FluencyStep, session: TestSession) => new Promise<TranscriptSegment[]>((resolve, reject) => {
+    const segments: TranscriptSegment[] = [];
+    const startedAt = Date.now();
+    setTranscript('');
+    setIsListening(true);
+    setNow(startedAt);
+    setFluencyEndsAt(startedAt + step.durationMs);
+    
+    if (modality === 'typed') {
+      typedFluencyRef.current = { startedAt, segments };
+      session.wait(step.durationMs)
+        .then(() => resolve(segments), reject)
+        .finally(() => {
+          typedFluencyRef.current = null;
+          setIsListening(false);
+          setFluencyEndsAt(null);
+        });
+      return;
+    }
+    
+    const recognition = startRecognition(bundle.speechLang, {
+      silenceTimeoutMs: step.durationMs,
+      maxResponseMs: step.durationMs,
+      onInterim: setTranscript,
+      onFinal: text => segments.push({ text, offsetMs: Date.now() - startedAt }),
+      signal: session.signal,
+    });
+    recognitionSessionRef.current = recognition;
+    
+    recognition.result
+      .then(() => resolve(segments), reject)
+      .finally(() => {
+        recognitionSessionRef.current = null;
+        setIsListening(false);
+        setFluencyEndsAt(null);
+      });
+  });
+  
+  // Speech, listening and clock drawing for the protocol runner, all stopped by the session
+  const createEnvironment = (session: TestSession): ProtocolEnvironment => ({
+    speak: async text => {
+      setCaption(text);
+      await speakWithFallback(text, { ...ttsOptions, signal: session.signal });
+      lastPromptEndedAtRef.current = performance.now();
+    },
+    listen: step => untilAborted(new Promise<string>((resolve, reject) => {
+      // The caption of a digit series would give the answer away
+      setCaption(null);
+      listenStepRef.current = step;
+      pendingResponseRef.current = { resolve, reject };
+      if (modality === 'typed') {
+        setTranscript('');
+        setIsListening(true);
+      } else {
+        startListening();
+      }
+    }), session.signal),
+    runTask: () => untilAborted(new Promise<ClockDrawingResult>(resolve => {
+      taskResolverRef.current = resolve;
+    }), session.signal),
+    listenTimed: step => {
+      setCaption(null);
+      return listenForDuration(step, session);
+    },
+    wait: session.wait,
+    signal: session.signal,
+  });
+  
   // Start the test
   const startTest = async () => {
-    setTestActive(true);
-    setTestPhase('wordPresentation');
-    setCurrentWordIndex(0);
-    setScore(0);
+    cancelSession();
+    const session = createTestSession();
+    sessionRef.current = session;
+    setRecallAudio(null);
+    setSpeechTiming(null);
     setTranscript('');
+    setCaption(null);
     setError(null);
     
-    try {
-      // Introduce the test
-      await speakWithFallback('I will say three words. Please listen carefully and remember them. You will be asked to recall these words later.');
-      
-      // Present each word with a pause between
-      for (let i = 0; i < selectedWordList.length; i++) {
-        setCurrentWordIndex(i);
-        await speakWithFallback(selectedWordList[i]);
-        await new Promise(resolve => setTimeout(resolve, 1000)); // Pause between words
+    let protocol = PROTOCOLS[mode];
+    if (withOrientation && mode !== 'orientation') protocol = withOrientationPrefix(protocol);
+    if (fluencyAdded) protocol = withFluencySuffix(protocol);
+    
+    const finalState = await runProtocol(
+      protocol,
+      {
+        language: bundle.code,
+        words: selectedWordList,
+        prompts,
+        giveUpPhrases: bundle.giveUpPhrases,
+        categories,
+        lexicon: getLexicon(bundle.code),
+        orientation: {
+          date: new Date(),
+          location: getClinicLocation(),
+          language: bundle.code,
+          vocabulary: bundle.orientation,
+          numbers: bundle.numbers,
+        },
+        interference: { task: interferenceTask, vocabulary: { ...bundle.interference, numbers: bundle.numbers } },
+        numbers: bundle.numbers,
+      },
+      createEnvironment(session),
+      state => {
+        // States of a cancelled session would undo the reset
+        if (sessionRef.current !== session) return;
+        setProtocolState(state);
+        onStateChange?.(state);
       }
-      
-      // Distraction phase
-      setTestPhase('distraction');
-      await speakWithFallback('Now, please wait for a moment.');
-      await new Promise(resolve => setTimeout(resolve, 5000)); // 5-second distraction period
-      
-      // Recall phase
-      setTestPhase('recall');
-      await speakWithFallback('Please repeat the three words I said earlier.');
-      startListening();
-      
-    } catch (error) {
-      console.error('Test execution error:', error);
-      setError(`An error occurred during the test: ${error}`);
-      setTestPhase('intro');
-      setTestActive(false);
+    );
+    
+    if (finalState.status === 'failed') {
+      // Shown after the localized "error during test" label
+      setError(finalState.error);
+      setProtocolState(initialProtocolState());
     }
   };
   
-  // Reset the test
+  // Hand the clinician's clock score back to the protocol
+  const handleClockScored = (clockScore: ClockScore, drawing: string | null) => {
+    const resolveTask = taskResolverRef.current;
+    taskResolverRef.current = null;
+    resolveTask?.({ clockScore, drawing });
+  };
+  
+  // Reset the test, stopping it if it is still running
   const resetTest = () => {
-    setTestActive(false);
-    setTestPhase('intro');
-    setCurrentWordIndex(0);
-    setScore(0);
+    cancelSession();
+    setProtocolState(initialProtocolState());
+    setIsListening(false);
+    setFluencyEndsAt(null);
+    setRecallAudio(null);
+    setSpeechTiming(null);
     setTranscript('');
+    setCaption(null);
     setError(null);
   };
   
+  const fluencyWordColors: Record<FluencyWordKind, string> = {
+    valid: 'text-green-600',
+    perseveration: 'text-amber-600',
+    intrusion: 'text-red-600',
+  };
+  
+  const instructions: Record<VoiceTestMode, string> = {
+    miniCog: ui.instructions,
+    mis: ui.misInstructions,
+    orientation: ui.orientationInstructions,
+    digitSpan: ui.digitSpanInstructions,
+  };
+  
+  const outcomeLabels: Record<ResponseAttemptOutcome, string> = {
+    response: ui.outcomeResponse,
+    noSpeech: ui.outcomeNoSpeech,
+    gaveUp: ui.outcomeGaveUp,
+    error: ui.outcomeError,
+  };
+  
   // Render test results
   const renderResults = () => {
-    let interpretation = '';
-    
-    if (score === 3) {
-      interpretation = 'Perfect score! Your word recall is excellent.';
-    } else if (score === 2) {
-      interpretation = 'Good job! Your word recall is within normal range.';
-    } else if (score === 1) {
-      interpretation = 'You recalled one word. This may indicate mild memory difficulties.';
-    } else {
-      interpretation = 'You did not recall any words. This may indicate significant memory difficulties.';
-    }
-    
-    if (onComplete) {
-      onComplete(score, 3);
-    }
+    if (!protocolState.score) return null;
+    const recall = miniCog ?? mis;
     
     return (
       <div className="bg-white p-6 rounded-lg shadow-md">
-        <h3 className="text-xl font-bold mb-4">Test Results</h3>
-        <p className="mb-2">Words you were asked to remember: <span className="font-semibold">{selectedWordList.join(', ')}</span></p>
-        <p className="mb-2">Your response: <span className="italic">"{transcript}"</span></p>
-        <p className="mb-2">Words correctly recalled: <span className="font-semibold">{score} out of 3</span></p>
-        <p className="mb-4">{interpretation}</p>
+        <h3 className="text-xl font-bold mb-4">{ui.resultsTitle}</h3>
+        {orientation && (
+          <div className="mb-2">
+            <p>{ui.orientation}:</p>
+            <ul className="mb-2">
+              {orientation.answers.map(answer => (
+                <li key={answer.item} className={answer.correct ? 'text-green-600' : 'text-red-600'}>
+                  {ui.orientationItems[answer.item]}: "{answer.transcript}"
+                  {!answer.correct && <> ({ui.expectedAnswer}: {answer.expected})</>}
+                </li>
+              ))}
+            </ul>
+            <p>{ui.orientationTotal}: <span className="font-semibold">{orientation.totalScore} {ui.outOf} {orientation.maxScore}</span></p>
+          </div>
+        )}
+        {interference && (
+          <div className="mb-2">
+            <p>{ui.interferenceTask}: {ui.interferenceTasks[interference.task]}</p>
+            <p className="text-sm text-gray-600">
+              {ui.heardAnswer}: {interference.given.join(' ') || ui.noSpeechDetected}
+              {' · '}{ui.expectedAnswer}: {interference.expected.join(' ')}
+            </p>
+            <p>{ui.interferenceCorrect}: <span className="font-semibold">{interference.correct} {ui.outOf} {interference.maxScore}</span></p>
+          </div>
+        )}
+        {recall && (
+          <>
+            <p className="mb-2">{ui.wordsToRemember}: <span className="font-semibold">{selectedWordList.join(', ')}</span></p>
+            <p className="mb-2">{ui.yourResponse}: <span className="italic">"{recallTranscript}"</span></p>
+          </>
+        )}
+        {protocolState.attempts.some(attempt => attempt.outcome !== 'response') && (
+          <div className="mb-2 text-sm text-gray-600">
+            <p>{ui.recallAttempts}:</p>
+            <ol className="list-decimal pl-5">
+              {protocolState.attempts.map(attempt => (
+                <li key={`${attempt.id}.${attempt.attempt}`}>
+                  {outcomeLabels[attempt.outcome]}{attempt.transcript && <> ("{attempt.transcript}")</>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+        {recallAudioUrl && (
+          <div className="mb-2">
+            <p className="mb-1">{ui.recordedResponse}:</p>
+            <audio controls src={recallAudioUrl} className="w-full" />
+          </div>
+        )}
+        {recall && (
+          <ul className="mb-2">
+            {recall.matchReport.matches.map(match => (
+              <li key={match.word} className={match.matchType === 'missed' ? 'text-red-600' : 'text-green-600'}>
+                {match.word}: {match.matchType === 'exact' && <>{ui.recalledAs} "{match.heardAs}"</>}
+                {match.matchType === 'phonetic' && <>{ui.soundsLike} "{match.heardAs}"</>}
+                {match.matchType === 'missed' && <>{ui.missed}</>}
+              </li>
+            ))}
+          </ul>
+        )}
+        {speechTiming && (
+          <p className="mb-2 text-sm text-gray-600">
+            {ui.responseLatency}: {speechTiming.responseLatencyMs !== null ? `${(speechTiming.responseLatencyMs / 1000).toFixed(1)} s` : ui.noSpeechDetected}
+            {' · '}{ui.speakingTime}: {(speechTiming.speakingTimeMs / 1000).toFixed(1)} s
+            {' · '}{ui.pauses}: {speechTiming.pauseCount}
+          </p>
+        )}
+        {fluency && (
+          <div className="mb-2">
+            <p>{ui.animalFluency}: <span className="font-semibold">{fluency.validCount}</span></p>
+            <p className="text-sm text-gray-600">
+              {ui.fluencyPerBin}: {fluency.binCounts.join(' · ')}
+              {' · '}{ui.perseverations}: {fluency.perseverations}
+              {' · '}{ui.intrusions}: {fluency.intrusions}
+            </p>
+            <p className="text-sm">
+              {fluency.words.map((word, index) => (
+                <span key={index} className={fluencyWordColors[word.kind]}>
+                  {index > 0 && ', '}{word.word}
+                </span>
+              ))}
+            </p>
+          </div>
+        )}
+        {miniCog && (
+          <>
+            <p className="mb-2">{ui.wordsRecalled}: <span className="font-semibold">{miniCog.recallScore} {ui.outOf} {MAX_RECALL_SCORE}</span></p>
+            <p className="mb-2">{ui.clockDrawing}: <span className="font-semibold">{miniCog.clockScore === 2 ? ui.clockNormal : ui.clockAbnormal} ({miniCog.clockScore} {ui.points})</span></p>
+            <p className="mb-2">{ui.miniCogTotal}: <span className="font-semibold">{miniCog.totalScore} {ui.outOf} {miniCog.maxScore}</span></p>
+            <p className={`mb-4 ${miniCog.screenPositive ? 'text-red-600' : 'text-green-600'}`}>{interpretMiniCog(miniCog.totalScore, bundle)}</p>
+          </>
+        )}
+        {mis && (
+          <>
+            {mis.cuedItems.length > 0 && (
+              <div className="mb-2">
+                <p>{ui.cuedRecall}:</p>
+                <ul>
+                  {mis.cuedItems.map(item => (
+                    <li key={item.word} className={item.recalled ? 'text-green-600' : 'text-red-600'}>
+                      {item.word} ({item.category}): {item.recalled ? <>{ui.recalledAs} "{item.transcript}"</> : ui.missed}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <p className="mb-2">{ui.freeRecall}: <span className="font-semibold">{mis.freeRecall} {ui.outOf} {selectedWordList.length}</span></p>
+            <p className="mb-2">{ui.cuedRecall}: <span className="font-semibold">{mis.cuedRecall} {ui.outOf} {mis.cuedItems.length}</span></p>
+            <p className="mb-2">{ui.misTotal}: <span className="font-semibold">{mis.totalScore} {ui.outOf} {mis.maxScore}</span></p>
+            <p className={`mb-4 ${mis.screenPositive ? 'text-red-600' : 'text-green-600'}`}>{interpretMis(mis.totalScore, bundle)}</p>
+          </>
+        )}
+        {digitSpan && (
+          <>
+            {[digitSpan.forward, digitSpan.backward].map(span => span && (
+              <div key={span.direction} className="mb-2">
+                <p>
+                  {span.direction === 'forward' ? ui.digitSpanForward : ui.digitSpanBackward}
+                  {' · '}{ui.longestSpan}: <span className="font-semibold">{span.longestSpan} {ui.outOf} {span.maxLength}</span>
+                </p>
+                <ul className="text-sm">
+                  {span.trials.map((trial, index) => (
+                    <li key={index} className={trial.correct ? 'text-green-600' : 'text-red-600'}>
+                      {trial.digits.join(' ')}: {trial.given.join(' ') || ui.noSpeechDetected}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+            <p className="mb-4">{ui.digitSpanTotal}: <span className="font-semibold">{digitSpan.totalScore} {ui.outOf} {digitSpan.maxScore}</span></p>
+          </>
+        )}
         <button 
           onClick={resetTest}
           className="bg-blue-500 hover:bg-blue-600 text-white font-semibold py-2 px-4 rounded"
         >
-          Take Test Again
+          {ui.takeTestAgain}
         </button>
       </div>
     );
@@ -187,73 +727,139 @@ const AlzheimersVoiceTest: React.FC<AlzheimersVoiceTestProps> = ({ onComplete })
   
   return (
     <div className="max-w-2xl mx-auto my-8 p-6 bg-gray-50 rounded-lg shadow-lg">
-      <h2 className="text-2xl font-bold mb-6">Alzheimer's Voice Test</h2>
+      <h2 className="text-2xl font-bold mb-6">{ui.testTitle}</h2>
       
       {error && (
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
-          <p>Error during test: {error}</p>
+          <p>{ui.errorDuringTest}: {error}</p>
         </div>
       )}
       
       {!testActive && testPhase === 'intro' && (
         <div>
-          <p className="mb-4">{instructions}</p>
-          <p className="mb-6">This test will assess your memory using voice interaction. You will hear three words and be asked to recall them.</p>
+          <p className="mb-6">{fluencyAdded ? `${instructions[mode]} ${ui.fluencyInstructions}` : instructions[mode]}</p>
+          {!recognitionSupported && <p className="mb-6 text-gray-600">{ui.typedAnswersFallback}</p>}
           <button 
             onClick={startTest}
             className="bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-4 rounded"
           >
-            Start Test
+            {ui.startTest}
           </button>
         </div>
       )}
       
+      {testActive && (
+        <div aria-live="polite" className="mb-4">
+          {caption && (
+            <p className="p-3 bg-white border border-gray-200 rounded">
+              <span className="text-sm text-gray-500">{ui.spokenCaption}: </span>{caption}
+            </p>
+          )}
+        </div>
+      )}
+      
       {testActive && testPhase === 'wordPresentation' && (
         <div>
-          <p className="mb-4">Please listen carefully to these words:</p>
+          <p className="mb-4">{ui.listenCarefully}</p>
           <div className="flex justify-center items-center h-24 bg-blue-100 rounded-lg mb-4">
             <p className="text-xl font-semibold">{selectedWordList[currentWordIndex]}</p>
           </div>
-          <p className="text-center text-gray-500">Word {currentWordIndex + 1} of 3</p>
+          <p className="text-center text-gray-500">{ui.wordProgress(currentWordIndex + 1, selectedWordList.length)}</p>
         </div>
       )}
       
-      {testActive && testPhase === 'distraction' && (
+      {testActive && testPhase === 'clockDrawing' && (
+        <ClockDrawing onScored={handleClockScored} />
+      )}
+      
+      {testActive && (testPhase === 'recall' || testPhase === 'cuedRecall' || testPhase === 'orientation' || testPhase === 'interference') && (
         <div>
-          <p className="mb-4">Please wait a moment...</p>
-          <div className="w-full bg-gray-200 rounded-full h-2.5 mb-4">
-            <div className="bg-blue-600 h-2.5 rounded-full animate-pulse"></div>
-          </div>
+          <p className="mb-4">
+            {testPhase === 'cuedRecall' && <>{ui.cueHint}: <span className="font-semibold">{categories[selectedWordList[currentWordIndex]]}</span></>}
+            {testPhase === 'recall' && ui.repeatWords}
+            {testPhase === 'orientation' && ui.answerQuestion}
+            {testPhase === 'interference' && ui.interferenceTasks[interferenceTask]}
+          </p>
+          {isListening && modality === 'typed' ? (
+            <TypedAnswer label={ui.typeAnswer} onSubmit={submitTypedAnswer} />
+          ) : isListening ? (
+            <div className="flex flex-col items-center">
+              <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mb-4 animate-pulse">
+                <span className="text-red-500">🎤</span>
+              </div>
+              <p>{ui.listening}</p>
+              {transcript && <p className="mt-2 italic">"{transcript}"</p>}
+              <button
+                onClick={stopListening}
+                className="mt-4 bg-gray-300 hover:bg-gray-400 text-gray-800 font-semibold py-2 px-4 rounded"
+              >
+                {ui.doneSpeaking}
+              </button>
+            </div>
+          ) : (
+            <p className="text-center text-gray-500">{ui.waitMoment}</p>
+          )}
         </div>
       )}
       
-      {testActive && testPhase === 'recall' && (
+      {testActive && (testPhase === 'digitSpanForward' || testPhase === 'digitSpanBackward') && (
         <div>
-          <p className="mb-4">Please repeat the three words you heard earlier:</p>
-          {isListening ? (
+          {isListening && modality === 'typed' ? (
+            <>
+              <p className="mb-4">{testPhase === 'digitSpanForward' ? ui.repeatForward : ui.repeatBackward}</p>
+              <TypedAnswer label={ui.typeAnswer} onSubmit={submitTypedAnswer} />
+            </>
+          ) : isListening ? (
             <div className="flex flex-col items-center">
+              <p className="mb-4">{testPhase === 'digitSpanForward' ? ui.repeatForward : ui.repeatBackward}</p>
               <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mb-4 animate-pulse">
                 <span className="text-red-500">🎤</span>
               </div>
-              <p>Listening...</p>
+              <p>{ui.listening}</p>
               {transcript && <p className="mt-2 italic">"{transcript}"</p>}
             </div>
           ) : (
-            <button 
-              onClick={startListening}
-              className="bg-blue-500 hover:bg-blue-600 text-white font-semibold py-2 px-4 rounded"
-            >
-              Start Speaking
-            </button>
+            <p className="text-center text-gray-500">{ui.listenToNumbers}</p>
           )}
         </div>
       )}
       
+      {testActive && testPhase === 'fluency' && (
+        <div>
+          <p className="mb-4">{ui.nameAnimals}</p>
+          {isListening && modality === 'typed' ? (
+            <div className="flex flex-col items-center">
+              {fluencyEndsAt !== null && <p className="mb-2">{ui.secondsLeft(Math.max(0, Math.ceil((fluencyEndsAt - now) / 1000)))}</p>}
+              <TypedAnswer label={ui.typeAnimals} onSubmit={submitTypedAnswer} />
+              {transcript && <p className="mt-2 italic">{transcript}</p>}
+            </div>
+          ) : isListening ? (
+            <div className="flex flex-col items-center">
+              <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mb-4 animate-pulse">
+                <span className="text-red-500">🎤</span>
+              </div>
+              {fluencyEndsAt !== null && <p>{ui.secondsLeft(Math.max(0, Math.ceil((fluencyEndsAt - now) / 1000)))}</p>}
+              {transcript && <p className="mt-2 italic">"{transcript}"</p>}
+            </div>
+          ) : (
+            <p className="text-center text-gray-500">{ui.waitMoment}</p>
+          )}
+        </div>
+      )}
+      
+      {testActive && (
+        <div className="mt-6 flex justify-end">
+          <button onClick={resetTest} className="text-sm text-gray-600 underline">
+            {ui.stopTest}
+          </button>
+        </div>
+      )}
+      
       {testPhase === 'results' && renderResults()}
       
       <div className="mt-8 text-sm text-gray-500">
-        <p>This application uses the Qwen2-Audio voice model via Hugging Face Inference API.</p>
-        <p>© 2025 Voice Alzheimer's Test</p>
+        <p>{ui.modelCredit}</p>
+        <p>© 2025 {ui.appTitle}</p>
       </div>
     </div>
   );
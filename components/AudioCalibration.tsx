@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { speakWithFallback } from '@/lib/huggingFaceApi';
+import { listenOnce, getSpeechRecognitionConstructor } from '@/lib/speechRecognition';
+import {
+  playTone,
+  openMicrophoneLevel,
+  measureAmbientNoise,
+  isPhraseRecognized,
+  toDecibels,
+  MicrophoneLevel,
+  AudioCalibrationResult,
+  MAX_AMBIENT_NOISE_DB,
+} from '@/lib/audioCalibration';
+import { AnswerModality } from '@/lib/testModes';
+import { SpeechSettings, toTtsOptions } from '@/lib/speechSettings';
+import { useLocale } from '@/components/LocaleProvider';
+
+interface AudioCalibrationProps {
+  // Typed answers need no microphone checks, nor do browsers that fall back to them
+  answerModality: AnswerModality;
+  // Speech settings of the profile; the check starts from their volume
+  speechSettings: SpeechSettings;
+  onComplete: (result: AudioCalibrationResult) => void;
+}
+
+type CheckStatus = 'pending' | 'running' | 'passed' | 'failed';
+
+// Range of the level meter, in dB relative to full scale
+const METER_FLOOR_DB = -60;
+
+const AudioCalibration: React.FC<AudioCalibrationProps> = ({ answerModality, speechSettings, onComplete }) => {
+  const { bundle } = useLocale();
+  const { ui, prompts } = bundle;
+  const checkMicrophone = answerModality === 'speech' && !!getSpeechRecognitionConstructor();
+
+  // Speakers
+  const [volume, setVolume] = useState<number>(speechSettings.volume);
+  const [tonePlayed, setTonePlayed] = useState<boolean>(false);
+  const [samplePlayed, setSamplePlayed] = useState<boolean>(false);
+  const [speakerStatus, setSpeakerStatus] = useState<CheckStatus>('pending');
+
+  // Microphone, opened once the speakers have passed
+  const microphoneRef = useRef<MicrophoneLevel | null>(null);
+  const [microphoneOpen, setMicrophoneOpen] = useState<boolean>(false);
+  const [microphoneError, setMicrophoneError] = useState<boolean>(false);
+  const [level, setLevel] = useState<number>(0);
+  const [phraseStatus, setPhraseStatus] = useState<CheckStatus>('pending');
+  const [heardPhrase, setHeardPhrase] = useState<string>('');
+
+  // Background noise
+  const [noiseStatus, setNoiseStatus] = useState<CheckStatus>('pending');
+  const [noiseDb, setNoiseDb] = useState<number | null>(null);
+
+  const passed = speakerStatus === 'passed'
+    && (!checkMicrophone || (phraseStatus === 'passed' && noiseStatus === 'passed'));
+
+  useEffect(() => {
+    if (!checkMicrophone || speakerStatus !== 'passed' || microphoneRef.current) return;
+
+    let cancelled = false;
+    openMicrophoneLevel()
+      .then(microphone => {
+        if (cancelled) {
+          microphone.close();
+          return;
+        }
+        microphoneRef.current = microphone;
+        setMicrophoneOpen(true);
+      })
+      .catch(error => {
+        console.error('Failed to open microphone:', error);
+        setMicrophoneError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [checkMicrophone, speakerStatus]);
+
+  // Follow the microphone level while it is open
+  useEffect(() => {
+    if (!microphoneOpen) return;
+
+    let frame = requestAnimationFrame(function update() {
+      setLevel(microphoneRef.current?.level() ?? 0);
+      frame = requestAnimationFrame(update);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [microphoneOpen]);
+
+  // Release the microphone when the wizard closes
+  useEffect(() => () => {
+    microphoneRef.current?.close();
+    microphoneRef.current = null;
+  }, []);
+
+  const handlePlayTone = async () => {
+    try {
+      await playTone(volume);
+      setTonePlayed(true);
+    } catch (error) {
+      console.error('Failed to play tone:', error);
+    }
+  };
+
+  const handlePlaySample = async () => {
+    try {
+      await speakWithFallback(prompts.calibrationSample, toTtsOptions({ ...speechSettings, volume }, bundle.speechLang));
+      setSamplePlayed(true);
+    } catch (error) {
+      console.error('Failed to play spoken sample:', error);
+    }
+  };
+
+  const handlePhraseCheck = async () => {
+    setPhraseStatus('running');
+    setHeardPhrase('');
+    try {
+      const transcript = await listenOnce(bundle.speechLang, { continuous: false, onInterim: setHeardPhrase });
+      setHeardPhrase(transcript);
+      setPhraseStatus(isPhraseRecognized(ui.calibrationPhrase, transcript, bundle.code) ? 'passed' : 'failed');
+    } catch (error) {
+      console.error('Test phrase recognition failed:', error);
+      setPhraseStatus('failed');
+    }
+  };
+
+  const handleMeasureNoise = async () => {
+    const microphone = microphoneRef.current;
+    if (!microphone) return;
+
+    setNoiseStatus('running');
+    const noise = await measureAmbientNoise(microphone);
+    setNoiseDb(noise);
+    setNoiseStatus(noise <= MAX_AMBIENT_NOISE_DB ? 'passed' : 'failed');
+  };
+
+  const finish = (checksPassed: boolean) => {
+    microphoneRef.current?.close();
+    microphoneRef.current = null;
+    onComplete({ volume, passed: checksPassed, noiseDb });
+  };
+
+  const meterPercent = Math.max(0, Math.min(100, (toDecibels(level) - METER_FLOOR_DB) / -METER_FLOOR_DB * 100));
+  const secondaryButton = 'bg-gray-300 hover:bg-gray-400 disabled:opacity-50 text-gray-800 font-semibold py-2 px-4 rounded';
+  const passedLabel = <span className="ml-2 text-green-600 font-normal">✓ {ui.checkPassed}</span>;
+
+  return (
+    <div className="max-w-2xl mx-auto my-8 p-6 bg-gray-50 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold mb-4">{ui.calibrationTitle}</h2>
+      <p className="mb-6">{ui.calibrationIntro}</p>
+
+      <section className="mb-6">
+        <h3 className="text-lg font-semibold mb-2">
+          {ui.speakerCheck}{speakerStatus === 'passed' && passedLabel}
+        </h3>
+        <label className="flex items-center gap-2 mb-3">
+          {ui.volume}
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(volume * 100)}
+            onChange={event => setVolume(Number(event.target.value) / 100)}
+            className="flex-1"
+          />
+          <span className="w-12 text-right">{Math.round(volume * 100)}%</span>
+        </label>
+        <div className="flex flex-wrap gap-2 mb-3">
+          <button onClick={handlePlayTone} className={secondaryButton}>{ui.playTone}</button>
+          <button onClick={handlePlaySample} className={secondaryButton}>{ui.playSample}</button>
+        </div>
+        {speakerStatus !== 'passed' && (
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setSpeakerStatus('passed')}
+              disabled={!tonePlayed || !samplePlayed}
+              className="bg-green-500 hover:bg-green-600 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded"
+            >
+              {ui.heardClearly}
+            </button>
+            <button onClick={() => setSpeakerStatus('failed')} className={secondaryButton}>{ui.notHeard}</button>
+          </div>
+        )}
+        {speakerStatus === 'failed' && <p className="mt-2 text-red-600">{ui.notHeardHint}</p>}
+      </section>
+
+      {checkMicrophone && speakerStatus === 'passed' && (
+        <section className="mb-6">
+          <h3 className="text-lg font-semibold mb-2">
+            {ui.microphoneCheck}{phraseStatus === 'passed' && passedLabel}
+          </h3>
+          {microphoneError && <p className="mb-2 text-red-600">{ui.microphoneUnavailable}</p>}
+          <div className="mb-3">
+            <p className="text-sm text-gray-600 mb-1">{ui.microphoneLevel}</p>
+            <div
+              role="meter"
+              aria-label={ui.microphoneLevel}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(meterPercent)}
+              className="h-3 bg-gray-200 rounded overflow-hidden"
+            >
+              <div className="h-full bg-green-500" style={{ width: `${meterPercent}%` }} />
+            </div>
+          </div>
+          <p className="mb-1">{ui.sayTestPhrase}</p>
+          <p className="mb-3 text-lg font-semibold">"{ui.calibrationPhrase}"</p>
+          <button
+            onClick={handlePhraseCheck}
+            disabled={!microphoneOpen || phraseStatus === 'running'}
+            className={secondaryButton}
+          >
+            {phraseStatus === 'running' ? ui.listening : ui.startPhraseCheck}
+          </button>
+          {heardPhrase && <p className="mt-2 italic">"{heardPhrase}"</p>}
+          {phraseStatus === 'passed' && <p className="mt-2 text-green-600">{ui.phraseRecognized}</p>}
+          {phraseStatus === 'failed' && <p className="mt-2 text-red-600">{ui.phraseNotRecognized}</p>}
+        </section>
+      )}
+
+      {checkMicrophone && speakerStatus === 'passed' && (
+        <section className="mb-6">
+          <h3 className="text-lg font-semibold mb-2">
+            {ui.noiseCheck}{noiseStatus === 'passed' && passedLabel}
+          </h3>
+          <p className="mb-3">{ui.stayQuiet}</p>
+          <button
+            onClick={handleMeasureNoise}
+            disabled={!microphoneOpen || noiseStatus === 'running'}
+            className={secondaryButton}
+          >
+            {noiseStatus === 'running' ? ui.waitMoment : ui.measureNoise}
+          </button>
+          {noiseDb !== null && noiseStatus !== 'running' && (
+            <p className={`mt-2 ${noiseStatus === 'passed' ? 'text-green-600' : 'text-red-600'}`}>
+              {ui.noiseLevel}: {Math.round(noiseDb)} dB · {noiseStatus === 'passed' ? ui.noiseOk : ui.noiseTooLoud}
+            </p>
+          )}
+        </section>
+      )}
+
+      <div className="flex flex-wrap justify-between gap-2">
+        <button
+          onClick={() => finish(true)}
+          disabled={!passed}
+          className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded"
+        >
+          {ui.continueToTest}
+        </button>
+        <button onClick={() => finish(false)} className="text-sm text-gray-600 underline">
+          {ui.skipChecks}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AudioCalibration;
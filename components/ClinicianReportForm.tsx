@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { TestResult } from '@/lib/resultHistory';
+import { createClinicianReport, defaultPaperSize, PaperSize, PatientDetails } from '@/lib/clinicianReport';
+import { downloadFile } from '@/lib/download';
+import { useLocale } from '@/components/LocaleProvider';
+
+interface ClinicianReportFormProps {
+  result: TestResult;
+}
+
+const ClinicianReportForm: React.FC<ClinicianReportFormProps> = ({ result }) => {
+  const { bundle } = useLocale();
+  const { ui } = bundle;
+  const [patient, setPatient] = useState<PatientDetails>({ name: '', identifier: '', dateOfBirth: '' });
+  const [paperSize, setPaperSize] = useState<PaperSize>(defaultPaperSize(bundle.speechLang));
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+
+  const updatePatient = (field: keyof PatientDetails) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setPatient({ ...patient, [field]: event.target.value });
+  };
+
+  const handleDownload = async () => {
+    setIsGenerating(true);
+    try {
+      const report = await createClinicianReport(result, patient, paperSize);
+      const date = result.timestamp.slice(0, 10);
+      downloadFile(report, `${result.testMode}-report-${date}.pdf`);
+    } catch (error) {
+      console.error('Failed to generate report:', error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md mb-4">
+      <h3 className="text-lg font-bold mb-4">{ui.reportTitle}</h3>
+      <div className="grid md:grid-cols-3 gap-4 mb-4">
+        <label className="flex flex-col text-sm">
+          {ui.patientName}
+          <input type="text" value={patient.name} onChange={updatePatient('name')} className="border border-gray-300 rounded px-2 py-1" />
+        </label>
+        <label className="flex flex-col text-sm">
+          {ui.patientId}
+          <input type="text" value={patient.identifier} onChange={updatePatient('identifier')} className="border border-gray-300 rounded px-2 py-1" />
+        </label>
+        <label className="flex flex-col text-sm">
+          {ui.dateOfBirth}
+          <input type="date" value={patient.dateOfBirth} onChange={updatePatient('dateOfBirth')} className="border border-gray-300 rounded px-2 py-1" />
+        </label>
+      </div>
+      <div className="flex items-center gap-4">
+        <label className="flex items-center gap-2 text-sm">
+          {ui.paperSize}
+          <select
+            value={paperSize}
+            onChange={event => setPaperSize(event.target.value as PaperSize)}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            <option value="a4">A4</option>
+            <option value="letter">Letter</option>
+          </select>
+        </label>
+        <button
+          onClick={handleDownload}
+          disabled={isGenerating}
+          className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded"
+        >
+          {ui.downloadReport}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ClinicianReportForm;
@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ClockScore } from '@/lib/miniCog';
+import { useLocale } from '@/components/LocaleProvider';
+
+interface ClockDrawingProps {
+  // The drawing is null when the clock was drawn on paper
+  onScored: (clockScore: ClockScore, drawing: string | null) => void;
+}
+
+const CANVAS_SIZE = 320;
+
+const ClockDrawing: React.FC<ClockDrawingProps> = ({ onScored }) => {
+  const { bundle } = useLocale();
+  const { ui, clockRubric } = bundle;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef<boolean>(false);
+  const [hasStrokes, setHasStrokes] = useState<boolean>(false);
+  const [drawing, setDrawing] = useState<string | null>(null);
+  // Drawn on paper instead of on screen, e.g. without a pointing device
+  const [onPaper, setOnPaper] = useState<boolean>(false);
+
+  // Prepare a blank canvas
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (context) {
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
+      context.lineWidth = 3;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+      context.strokeStyle = '#111827';
+    }
+  }, []);
+
+  // Map a pointer event to canvas coordinates, accounting for CSS scaling
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = getPoint(event);
+    context.beginPath();
+    context.moveTo(x, y);
+    isDrawingRef.current = true;
+    setHasStrokes(true);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    isDrawingRef.current = false;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  const clearCanvas = () => {
+    const context = canvasRef.current?.getContext('2d');
+    if (context) {
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
+    }
+    setHasStrokes(false);
+  };
+
+  const finishDrawing = () => {
+    if (canvasRef.current) {
+      setDrawing(canvasRef.current.toDataURL('image/png'));
+    }
+  };
+
+  if (drawing || onPaper) {
+    return (
+      <div>
+        <p className="mb-4">{ui.clockScorePrompt}</p>
+        <div className="flex justify-center mb-4">
+          {drawing
+            ? <img src={drawing} alt={ui.clockDrawingAlt} className="border border-gray-300 rounded" width={CANVAS_SIZE / 2} height={CANVAS_SIZE / 2} />
+            : <p className="italic">{ui.clockDrawnOnPaper}</p>}
+        </div>
+        <div className="grid md:grid-cols-2 gap-4 mb-4 text-sm">
+          <div className="p-3 bg-green-50 rounded">
+            <p className="font-semibold mb-1">{ui.clockNormal} (2 {ui.points})</p>
+            <ul className="list-disc pl-5">
+              {clockRubric.normal.map(criterion => <li key={criterion}>{criterion}</li>)}
+            </ul>
+          </div>
+          <div className="p-3 bg-red-50 rounded">
+            <p className="font-semibold mb-1">{ui.clockAbnormal} (0 {ui.points})</p>
+            <ul className="list-disc pl-5">
+              {clockRubric.abnormal.map(criterion => <li key={criterion}>{criterion}</li>)}
+            </ul>
+          </div>
+        </div>
+        <div className="flex justify-center gap-4">
+          <button
+            onClick={() => onScored(2, drawing)}
+            className="bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-4 rounded"
+          >
+            {ui.clockNormal}
+          </button>
+          <button
+            onClick={() => onScored(0, drawing)}
+            className="bg-red-500 hover:bg-red-600 text-white font-semibold py-2 px-4 rounded"
+          >
+            {ui.clockAbnormal}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p className="mb-4">{ui.clockInstructions}</p>
+      <div className="flex justify-center mb-4">
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_SIZE}
+          height={CANVAS_SIZE}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="border border-gray-300 rounded bg-white touch-none w-full max-w-xs"
+        />
+      </div>
+      <div className="flex justify-center gap-4">
+        <button
+          onClick={() => setOnPaper(true)}
+          className="bg-gray-300 hover:bg-gray-400 text-gray-800 font-semibold py-2 px-4 rounded"
+        >
+          {ui.clockOnPaper}
+        </button>
+        <button
+          onClick={clearCanvas}
+          className="bg-gray-300 hover:bg-gray-400 text-gray-800 font-semibold py-2 px-4 rounded"
+        >
+          {ui.clockClear}
+        </button>
+        <button
+          onClick={finishDrawing}
+          disabled={!hasStrokes}
+          className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white font-semibold py-2 px-4 rounded"
+        >
+          {ui.clockDone}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ClockDrawing;
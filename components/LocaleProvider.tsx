@@ -0,0 +1,45 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { LocaleBundle, LocaleCode, LOCALE_COOKIE, getLocaleBundle } from '@/lib/locales';
+
+interface LocaleContextValue {
+  locale: LocaleCode;
+  bundle: LocaleBundle;
+  setLocale: (locale: LocaleCode) => void;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+interface LocaleProviderProps {
+  initialLocale: LocaleCode;
+  children: React.ReactNode;
+}
+
+export const LocaleProvider: React.FC<LocaleProviderProps> = ({ initialLocale, children }) => {
+  const [locale, setLocale] = useState<LocaleCode>(initialLocale);
+  const bundle = getLocaleBundle(locale);
+
+  // Keep <html lang> in sync and remember the choice for the next server render
+  useEffect(() => {
+    document.documentElement.lang = bundle.speechLang;
+    document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=31536000; samesite=lax`;
+  }, [locale, bundle]);
+
+  return (
+    <LocaleContext.Provider value={{ locale, bundle, setLocale }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+};
+
+/**
+ * Returns the active locale and its bundle
+ */
+export function useLocale(): LocaleContextValue {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error('useLocale must be used inside a LocaleProvider');
+  }
+  return context;
+}
@@ -0,0 +1,30 @@
+import React from 'react';
+import { locales, isLocaleCode } from '@/lib/locales';
+import { useLocale } from '@/components/LocaleProvider';
+
+const LocaleSelector: React.FC = () => {
+  const { locale, bundle, setLocale } = useLocale();
+
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span>{bundle.ui.languageLabel}:</span>
+      <select
+        value={locale}
+        onChange={event => {
+          if (isLocaleCode(event.target.value)) {
+            setLocale(event.target.value);
+          }
+        }}
+        className="border border-gray-300 rounded px-2 py-1 bg-white"
+      >
+        {Object.values(locales).map(option => (
+          <option key={option.code} value={option.code} lang={option.speechLang}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LocaleSelector;
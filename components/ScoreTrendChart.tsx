@@ -0,0 +1,60 @@
+import React from 'react';
+import { StoredTestResult } from '@/lib/resultHistory';
+
+interface ScoreTrendChartProps {
+  results: StoredTestResult[];
+  label: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PADDING = 40;
+
+const ScoreTrendChart: React.FC<ScoreTrendChartProps> = ({ results, label }) => {
+  if (results.length === 0) return null;
+
+  const maxScore = Math.max(...results.map(result => result.maxScore));
+  const times = results.map(result => new Date(result.timestamp).getTime());
+  const firstTime = Math.min(...times);
+  const timeRange = Math.max(...times) - firstTime;
+
+  // A single session is drawn in the middle of the chart
+  const x = (time: number) => timeRange === 0
+    ? WIDTH / 2
+    : PADDING + (time - firstTime) / timeRange * (WIDTH - 2 * PADDING);
+  const y = (score: number) => HEIGHT - PADDING - score / maxScore * (HEIGHT - 2 * PADDING);
+
+  const points = results.map((result, index) => ({ x: x(times[index]), y: y(result.score), result }));
+  const gridLines = Array.from({ length: maxScore + 1 }, (_, score) => score)
+    .filter(score => maxScore <= 10 || score % 5 === 0);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={label}>
+      {gridLines.map(score => (
+        <g key={score}>
+          <line x1={PADDING} x2={WIDTH - PADDING} y1={y(score)} y2={y(score)} stroke="#e5e7eb" />
+          <text x={PADDING - 8} y={y(score) + 4} textAnchor="end" fontSize="12" fill="#6b7280">{score}</text>
+        </g>
+      ))}
+      <polyline
+        points={points.map(point => `${point.x},${point.y}`).join(' ')}
+        fill="none"
+        stroke="#3b82f6"
+        strokeWidth="2"
+      />
+      {points.map(point => (
+        <circle key={point.result.id} cx={point.x} cy={point.y} r="4" fill="#3b82f6">
+          <title>{`${new Date(point.result.timestamp).toLocaleString()}: ${point.result.score} / ${point.result.maxScore}`}</title>
+        </circle>
+      ))}
+      <text x={PADDING} y={HEIGHT - 12} fontSize="12" fill="#6b7280">
+        {new Date(firstTime).toLocaleDateString()}
+      </text>
+      <text x={WIDTH - PADDING} y={HEIGHT - 12} textAnchor="end" fontSize="12" fill="#6b7280">
+        {new Date(firstTime + timeRange).toLocaleDateString()}
+      </text>
+    </svg>
+  );
+};
+
+export default ScoreTrendChart;
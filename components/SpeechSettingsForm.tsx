@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { speakWithFallback, webSpeechProvider } from '@/lib/huggingFaceApi';
+import {
+  SpeechSettings,
+  SpeechVoice,
+  DEFAULT_PROFILE,
+  SPEECH_RATE_RANGE,
+  SPEECH_PITCH_RANGE,
+  getSpeechProfiles,
+  getAvailableVoices,
+  toTtsOptions,
+} from '@/lib/speechSettings';
+import { useLocale } from '@/components/LocaleProvider';
+
+interface SpeechSettingsFormProps {
+  profile: string;
+  settings: SpeechSettings;
+  onProfileChange: (profile: string) => void;
+  onChange: (settings: SpeechSettings) => void;
+}
+
+// Voices are told apart by provider and name
+const voiceKey = (voice: SpeechVoice) => `${voice.provider}|${voice.name}`;
+
+// Rate, pitch, volume and voice of the spoken prompts, saved per profile
+const SpeechSettingsForm: React.FC<SpeechSettingsFormProps> = ({ profile, settings, onProfileChange, onChange }) => {
+  const { bundle } = useLocale();
+  const { ui, prompts } = bundle;
+  const [profiles, setProfiles] = useState<string[]>([]);
+  const [newProfile, setNewProfile] = useState<string>('');
+  const [voices, setVoices] = useState<SpeechVoice[]>([]);
+
+  // Saving the settings of a new profile adds it to the list
+  useEffect(() => {
+    let cancelled = false;
+    getSpeechProfiles().then(names => {
+      if (!cancelled) setProfiles(names);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [profile, settings]);
+
+  // Browsers may load their voices after the page
+  useEffect(() => {
+    const update = () => setVoices(getAvailableVoices(bundle.speechLang));
+    update();
+    const synthesis = typeof window !== 'undefined' ? window.speechSynthesis : undefined;
+    synthesis?.addEventListener('voiceschanged', update);
+    return () => synthesis?.removeEventListener('voiceschanged', update);
+  }, [bundle.speechLang]);
+
+  const profileNames = Array.from(new Set([DEFAULT_PROFILE, profile, ...profiles]));
+  const providers = Array.from(new Set(voices.map(voice => voice.provider)));
+  const selectedVoice = settings.voices[bundle.speechLang];
+
+  const handleVoiceChange = (key: string) => {
+    const voice = voices.find(candidate => voiceKey(candidate) === key);
+    const { [bundle.speechLang]: _previous, ...otherVoices } = settings.voices;
+    onChange({ ...settings, voices: voice ? { ...otherVoices, [bundle.speechLang]: voice } : otherVoices });
+  };
+
+  const handleAddProfile = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newProfile.trim();
+    if (!name) return;
+    setNewProfile('');
+    onProfileChange(name);
+  };
+
+  const handlePreview = () => {
+    speakWithFallback(prompts.calibrationSample, toTtsOptions(settings, bundle.speechLang)).catch(error => {
+      console.error('Failed to play spoken sample:', error);
+    });
+  };
+
+  const slider = (label: string, value: number, min: number, max: number, onValueChange: (value: number) => void) => (
+    <label className="flex items-center gap-2 mb-2">
+      <span className="w-32">{label}</span>
+      <input
+        type="range"
+        min={Math.round(min * 100)}
+        max={Math.round(max * 100)}
+        value={Math.round(value * 100)}
+        onChange={event => onValueChange(Number(event.target.value) / 100)}
+        className="flex-1"
+      />
+      <span className="w-12 text-right">{Math.round(value * 100)}%</span>
+    </label>
+  );
+
+  return (
+    <fieldset className="mb-8">
+      <legend className="font-semibold mb-2">{ui.speechSettings}</legend>
+      <p className="mb-3 text-sm text-gray-600">{ui.speechSettingsHint}</p>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <label className="flex items-center gap-2">
+          {ui.profile}
+          <select
+            value={profile}
+            onChange={event => onProfileChange(event.target.value)}
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            {profileNames.map(name => (
+              <option key={name} value={name}>{name === DEFAULT_PROFILE ? ui.defaultProfile : name}</option>
+            ))}
+          </select>
+        </label>
+        <form onSubmit={handleAddProfile} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newProfile}
+            onChange={event => setNewProfile(event.target.value)}
+            placeholder={ui.newProfileName}
+            aria-label={ui.newProfileName}
+            className="border border-gray-300 rounded px-2 py-1"
+          />
+          <button
+            type="submit"
+            disabled={!newProfile.trim()}
+            className="bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-800 py-1 px-3 rounded"
+          >
+            {ui.addProfile}
+          </button>
+        </form>
+      </div>
+      {slider(ui.speechRate, settings.rate, SPEECH_RATE_RANGE.min, SPEECH_RATE_RANGE.max, rate => onChange({ ...settings, rate }))}
+      {slider(ui.speechPitch, settings.pitch, SPEECH_PITCH_RANGE.min, SPEECH_PITCH_RANGE.max, pitch => onChange({ ...settings, pitch }))}
+      {slider(ui.volume, settings.volume, 0, 1, volume => onChange({ ...settings, volume }))}
+      <label className="flex items-center gap-2 mb-3">
+        <span className="w-32">{ui.voice}</span>
+        <select
+          value={selectedVoice ? voiceKey(selectedVoice) : ''}
+          onChange={event => handleVoiceChange(event.target.value)}
+          className="flex-1 border border-gray-300 rounded px-2 py-1"
+        >
+          <option value="">{ui.defaultVoice}</option>
+          {providers.map(provider => (
+            <optgroup key={provider} label={provider === webSpeechProvider.name ? ui.deviceVoices : provider}>
+              {voices.filter(voice => voice.provider === provider).map(voice => (
+                <option key={voiceKey(voice)} value={voiceKey(voice)}>{voice.label ?? voice.name}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      </label>
+      <button
+        type="button"
+        onClick={handlePreview}
+        className="bg-gray-200 hover:bg-gray-300 text-gray-800 py-1 px-3 rounded"
+      >
+        {ui.previewSpeech}
+      </button>
+    </fieldset>
+  );
+};
+
+export default SpeechSettingsForm;
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { useLocale } from '@/components/LocaleProvider';
+
+interface TypedAnswerProps {
+  // Instruction shown as the label of the field
+  label: string;
+  onSubmit: (text: string) => void;
+}
+
+// Text field for an answer that is typed instead of spoken; Enter submits it
+const TypedAnswer: React.FC<TypedAnswerProps> = ({ label, onSubmit }) => {
+  const { bundle: { ui } } = useLocale();
+  const [text, setText] = useState<string>('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSubmit(text.trim());
+    setText('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col items-center">
+      <label className="w-full mb-2">
+        <span className="block mb-2">{label}</span>
+        <input
+          type="text"
+          value={text}
+          onChange={event => setText(event.target.value)}
+          autoFocus
+          autoComplete="off"
+          spellCheck={false}
+          className="w-full border border-gray-300 rounded px-3 py-2"
+        />
+      </label>
+      <button
+        type="submit"
+        className="bg-blue-500 hover:bg-blue-600 text-white font-semibold py-2 px-4 rounded"
+      >
+        {ui.submitAnswer}
+      </button>
+    </form>
+  );
+};
+
+export default TypedAnswer;
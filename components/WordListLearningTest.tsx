@@ -0,0 +1,391 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { speakWithFallback } from '@/lib/huggingFaceApi';
+import { listenOnce, getSpeechRecognitionConstructor, ListenOptions } from '@/lib/speechRecognition';
+import { matchRecalledWords, RecallMatchReport } from '@/lib/wordMatching';
+import {
+  scoreWordListLearning,
+  parseYesNo,
+  shuffle,
+  RecognitionAnswer,
+  WordListLearningScore,
+  LEARNING_TRIALS,
+} from '@/lib/wordListLearning';
+import { ClockScore } from '@/lib/miniCog';
+import { listenWithAttempts, ResponseAttempt, AttemptedResponse } from '@/lib/responseAttempts';
+import { createTestSession, isAbortError, untilAborted, TestSession } from '@/lib/testSession';
+import { SpeechSettings, DEFAULT_SPEECH_SETTINGS, toTtsOptions } from '@/lib/speechSettings';
+import { AnswerModality } from '@/lib/testModes';
+import ClockDrawing from '@/components/ClockDrawing';
+import TypedAnswer from '@/components/TypedAnswer';
+import { useLocale } from '@/components/LocaleProvider';
+
+export interface WordListLearningResult extends WordListLearningScore {
+  locale: string;
+  wordList: string[];
+  trialTranscripts: string[];
+  trialReports: RecallMatchReport[];
+  delayedTranscript: string;
+  delayedReport: RecallMatchReport;
+  recognitionAnswers: RecognitionAnswer[];
+  // Listening attempts of the recall trials, including re-prompts and give-ups
+  attempts: ResponseAttempt[];
+  // Clock drawing that filled the delay interval; null when drawn on paper
+  clockScore: ClockScore;
+  clockDrawing: string | null;
+  // How the answers were given
+  answerModality: AnswerModality;
+}
+
+interface WordListLearningTestProps {
+  // Defaults to spoken answers; answers are typed where speech recognition is unsupported
+  answerModality?: AnswerModality;
+  // Rate, pitch, volume and voice of the spoken prompts
+  speechSettings?: SpeechSettings;
+  onComplete?: (result: WordListLearningResult) => void;
+}
+
+// Voice re-prompts when no recall was heard
+const RECALL_REPROMPTS = 2;
+
+const WordListLearningTest: React.FC<WordListLearningTestProps> = ({ answerModality = 'speech', speechSettings = DEFAULT_SPEECH_SETTINGS, onComplete }) => {
+  const { bundle } = useLocale();
+  const { ui } = bundle;
+  const { words, distractors, yesWords, noWords, prompts } = bundle.wordListLearning;
+  const ttsOptions = toTtsOptions(speechSettings, bundle.speechLang);
+
+  // Test states
+  const [testActive, setTestActive] = useState<boolean>(false);
+  const [testPhase, setTestPhase] = useState<'intro' | 'learning' | 'learningRecall' | 'filledInterval' | 'delayedRecall' | 'recognition' | 'results'>('intro');
+  const [trial, setTrial] = useState<number>(1);
+  const [currentWord, setCurrentWord] = useState<string>('');
+  const [isListening, setIsListening] = useState<boolean>(false);
+  const [interimTranscript, setInterimTranscript] = useState<string>('');
+  const [trialTranscripts, setTrialTranscripts] = useState<string[]>([]);
+  const [trialReports, setTrialReports] = useState<RecallMatchReport[]>([]);
+  const [attempts, setAttempts] = useState<ResponseAttempt[]>([]);
+  const [result, setResult] = useState<WordListLearningResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [recognitionSupported, setRecognitionSupported] = useState<boolean>(true);
+  const modality: AnswerModality = recognitionSupported ? answerModality : 'typed';
+  // Typed answer being waited for
+  const typedAnswerRef = useRef<((text: string) => void) | null>(null);
+  // Text being spoken, shown as a caption
+  const [caption, setCaption] = useState<string | null>(null);
+  // Latest session; once cancelled, everything it still tries to do fails at once
+  const sessionRef = useRef<TestSession | null>(null);
+
+  // Check for speech recognition support
+  useEffect(() => {
+    if (!getSpeechRecognitionConstructor()) {
+      setRecognitionSupported(false);
+    }
+  }, []);
+
+  // Leaving the page ends the session
+  useEffect(() => () => sessionRef.current?.cancel(), []);
+
+  // Speak with a caption of the text
+  const speak = async (text: string) => {
+    setCaption(text);
+    await speakWithFallback(text, { ...ttsOptions, signal: sessionRef.current?.signal });
+  };
+
+  // Wait for the spoken or typed answer, showing the words as they are recognized
+  const listen = async (options?: ListenOptions): Promise<string> => {
+    setCaption(null);
+    setIsListening(true);
+    setInterimTranscript('');
+    try {
+      const signal = sessionRef.current?.signal;
+      if (modality === 'typed') {
+        return await untilAborted(new Promise<string>(resolve => {
+          typedAnswerRef.current = resolve;
+        }), signal);
+      }
+      return await listenOnce(bundle.speechLang, { ...options, onInterim: setInterimTranscript, signal });
+    } finally {
+      setIsListening(false);
+    }
+  };
+
+  const submitTypedAnswer = (text: string) => {
+    const resolveAnswer = typedAnswerRef.current;
+    typedAnswerRef.current = null;
+    resolveAnswer?.(text);
+  };
+
+  // Listen for a recall, re-prompting on silence and treating give-up phrases as no words
+  const listenForRecall = async (id: string): Promise<AttemptedResponse> => {
+    const recall = await listenWithAttempts(
+      id,
+      () => listen(),
+      speak,
+      { maxReprompts: RECALL_REPROMPTS, repromptText: bundle.prompts.recallReprompt, giveUpPhrases: bundle.giveUpPhrases }
+    );
+    setAttempts(previous => [...previous, ...recall.attempts]);
+    return recall;
+  };
+  
+  const handleError = (error: unknown) => {
+    // A cancelled session was reset by whoever cancelled it
+    if (isAbortError(error)) return;
+    console.error('Test execution error:', error);
+    // Shown after the localized "error during test" label
+    setError(error instanceof Error ? error.message : String(error));
+    setTestPhase('intro');
+    setTestActive(false);
+  };
+
+  // Run the three learning trials, then continue with the filled interval
+  const startTest = async () => {
+    sessionRef.current?.cancel();
+    const session = createTestSession();
+    sessionRef.current = session;
+    setTestActive(true);
+    setTrialTranscripts([]);
+    setTrialReports([]);
+    setAttempts([]);
+    setResult(null);
+    setCaption(null);
+    setError(null);
+
+    try {
+      const transcripts: string[] = [];
+      const reports: RecallMatchReport[] = [];
+
+      for (let trialNumber = 1; trialNumber <= LEARNING_TRIALS; trialNumber++) {
+        setTrial(trialNumber);
+        setTestPhase('learning');
+        await speak(trialNumber === 1 ? prompts.introduction : prompts.nextTrial);
+
+        // Each trial presents the words in a new order
+        for (const word of shuffle(words)) {
+          setCurrentWord(word);
+          await speak(word);
+          await session.wait(1000); // Pause between words
+        }
+
+        setTestPhase('learningRecall');
+        await speak(prompts.immediateRecall);
+        const { response: transcript } = await listenForRecall(`trial-${trialNumber}`);
+        transcripts.push(transcript);
+        reports.push(matchRecalledWords(words, transcript, bundle.code));
+        setTrialTranscripts([...transcripts]);
+        setTrialReports([...reports]);
+      }
+
+      // Filled interval, continued from handleClockScored
+      setTestPhase('filledInterval');
+      await speak(bundle.prompts.clockDrawing);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  // Run the delayed recall and recognition trials after the clock drawing
+  const handleClockScored = async (clockScore: ClockScore, clockDrawing: string | null) => {
+    try {
+      setTestPhase('delayedRecall');
+      await speak(prompts.delayedRecall);
+      const delayed = await listenForRecall('delayed-recall');
+      const delayedTranscript = delayed.response;
+      const delayedReport = matchRecalledWords(words, delayedTranscript, bundle.code);
+
+      setTestPhase('recognition');
+      await speak(prompts.recognitionIntro);
+
+      const recognitionAnswers: RecognitionAnswer[] = [];
+      const items = shuffle([
+        ...words.map(word => ({ word, isTarget: true })),
+        ...distractors.map(word => ({ word, isTarget: false })),
+      ]);
+
+      for (const item of items) {
+        setCurrentWord(item.word);
+        await speak(item.word);
+        // A yes or no ends with the first phrase
+        const transcript = await listen({ continuous: false });
+        recognitionAnswers.push({ ...item, transcript, answer: parseYesNo(transcript, yesWords, noWords) });
+      }
+
+      const sessionResult: WordListLearningResult = {
+        ...scoreWordListLearning(trialReports, delayedReport, recognitionAnswers),
+        locale: bundle.code,
+        wordList: words,
+        trialTranscripts,
+        trialReports,
+        delayedTranscript,
+        delayedReport,
+        recognitionAnswers,
+        attempts: [...attempts, ...delayed.attempts],
+        clockScore,
+        clockDrawing,
+        answerModality: modality,
+      };
+
+      setResult(sessionResult);
+      setTestPhase('results');
+      if (onComplete) {
+        onComplete(sessionResult);
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  // Reset the test, stopping it if it is still running
+  const resetTest = () => {
+    sessionRef.current?.cancel();
+    typedAnswerRef.current = null;
+    setTestActive(false);
+    setIsListening(false);
+    setTestPhase('intro');
+    setTrial(1);
+    setCurrentWord('');
+    setTrialTranscripts([]);
+    setTrialReports([]);
+    setAttempts([]);
+    setResult(null);
+    setCaption(null);
+    setError(null);
+  };
+
+  const renderListening = () => (
+    isListening && modality === 'typed' ? (
+      <TypedAnswer label={ui.typeAnswer} onSubmit={submitTypedAnswer} />
+    ) : isListening && (
+      <div className="flex flex-col items-center">
+        <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mb-4 animate-pulse">
+          <span className="text-red-500">🎤</span>
+        </div>
+        <p>{ui.listening}</p>
+        {interimTranscript && <p className="mt-2 italic">"{interimTranscript}"</p>}
+      </div>
+    )
+  );
+
+  // Render test results
+  const renderResults = () => {
+    if (!result) return null;
+
+    return (
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        <h3 className="text-xl font-bold mb-4">{ui.resultsTitle}</h3>
+        <p className="mb-2">{ui.wordsToRemember}: <span className="font-semibold">{result.wordList.join(', ')}</span></p>
+        <p className="mb-2">
+          {ui.trialScores}: <span className="font-semibold">{result.trialScores.join(' / ')}</span>
+        </p>
+        <p className="mb-2">{ui.trialTotal}: <span className="font-semibold">{result.trialTotal} {ui.outOf} {words.length * LEARNING_TRIALS}</span></p>
+        <p className="mb-2">{ui.learningSlope}: <span className="font-semibold">{result.learningSlope} {ui.perTrial}</span></p>
+        <p className="mb-2">{ui.delayedRecall}: <span className="font-semibold">{result.delayedRecall} {ui.outOf} {words.length}</span></p>
+        <p className="mb-2">{ui.savings}: <span className="font-semibold">{result.savingsPercent !== null ? `${result.savingsPercent}%` : '-'}</span></p>
+        <p className="mb-2">
+          {ui.recognition}: <span className="font-semibold">{result.recognitionHits} {ui.hits}, {result.recognitionCorrectRejections} {ui.correctRejections}</span>
+          {' · '}{ui.discriminability}: <span className="font-semibold">{result.recognitionDiscriminability}%</span>
+        </p>
+        <ul className="mb-4 text-sm text-gray-600">
+          {result.recognitionAnswers.filter(item => item.answer === null).map(item => (
+            <li key={item.word}>{item.word}: {ui.notUnderstood} ("{item.transcript}")</li>
+          ))}
+        </ul>
+        <button
+          onClick={resetTest}
+          className="bg-blue-500 hover:bg-blue-600 text-white font-semibold py-2 px-4 rounded"
+        >
+          {ui.takeTestAgain}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto my-8 p-6 bg-gray-50 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold mb-6">{ui.wordListTitle}</h2>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          <p>{ui.errorDuringTest}: {error}</p>
+        </div>
+      )}
+
+      {!testActive && testPhase === 'intro' && (
+        <div>
+          <p className="mb-6">{ui.wordListInstructions}</p>
+          {!recognitionSupported && <p className="mb-6 text-gray-600">{ui.typedAnswersFallback}</p>}
+          <button
+            onClick={startTest}
+            className="bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-4 rounded"
+          >
+            {ui.startTest}
+          </button>
+        </div>
+      )}
+
+      {testActive && (
+        <div aria-live="polite" className="mb-4">
+          {caption && (
+            <p className="p-3 bg-white border border-gray-200 rounded">
+              <span className="text-sm text-gray-500">{ui.spokenCaption}: </span>{caption}
+            </p>
+          )}
+        </div>
+      )}
+
+      {testActive && testPhase === 'learning' && (
+        <div>
+          <p className="mb-2 text-center text-gray-500">{ui.trialProgress(trial, LEARNING_TRIALS)}</p>
+          <p className="mb-4">{ui.listenCarefully}</p>
+          <div className="flex justify-center items-center h-24 bg-blue-100 rounded-lg mb-4">
+            <p className="text-xl font-semibold">{currentWord}</p>
+          </div>
+        </div>
+      )}
+
+      {testActive && testPhase === 'learningRecall' && (
+        <div>
+          <p className="mb-2 text-center text-gray-500">{ui.trialProgress(trial, LEARNING_TRIALS)}</p>
+          <p className="mb-4">{ui.recallAllWords}</p>
+          {renderListening()}
+        </div>
+      )}
+
+      {testActive && testPhase === 'filledInterval' && (
+        <ClockDrawing onScored={handleClockScored} />
+      )}
+
+      {testActive && testPhase === 'delayedRecall' && (
+        <div>
+          <p className="mb-4">{ui.recallAllWords}</p>
+          {renderListening()}
+        </div>
+      )}
+
+      {testActive && testPhase === 'recognition' && (
+        <div>
+          <p className="mb-4">{ui.recognitionQuestion}</p>
+          <div className="flex justify-center items-center h-24 bg-blue-100 rounded-lg mb-4">
+            <p className="text-xl font-semibold">{currentWord}</p>
+          </div>
+          {renderListening()}
+        </div>
+      )}
+
+      {testActive && testPhase !== 'results' && (
+        <div className="mt-6 flex justify-end">
+          <button onClick={resetTest} className="text-sm text-gray-600 underline">
+            {ui.stopTest}
+          </button>
+        </div>
+      )}
+
+      {testPhase === 'results' && renderResults()}
+
+      <div className="mt-8 text-sm text-gray-500">
+        <p>{ui.modelCredit}</p>
+        <p>© 2025 {ui.appTitle}</p>
+      </div>
+    </div>
+  );
+};
+
+export default WordListLearningTest;
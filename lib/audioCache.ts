@@ -0,0 +1,86 @@
+/**
+ * Persistent cache of synthesized speech, stored in IndexedDB
+ */
+
+import { openDatabase, requestToPromise, isIndexedDbAvailable } from '@/lib/indexedDb';
+import { TtsOptions } from '@/lib/ttsProviders';
+
+const DB_NAME = 'alzheimers-voice-test-audio';
+const DB_VERSION = 1;
+const STORE_NAME = 'utterances';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+      db.createObjectStore(STORE_NAME);
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Builds the cache key for an utterance
+ *
+ * @param provider - Name of the TTS provider that synthesized the audio
+ * @param options - Voice and locale used, if any
+ * @param text - The spoken text
+ * @returns The cache key
+ */
+export function audioCacheKey(provider: string, options: TtsOptions | undefined, text: string): string {
+  return `${provider}|${options?.locale || ''}|${options?.voice || 'default'}|${text}`;
+}
+
+/**
+ * Looks up cached audio
+ *
+ * @param key - Key from audioCacheKey
+ * @returns Promise with the audio data, or null on a miss or when the cache is unavailable
+ */
+export async function getCachedAudio(key: string): Promise<ArrayBuffer | null> {
+  if (!isIndexedDbAvailable()) return null;
+
+  try {
+    const db = await getDatabase();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const result = await requestToPromise<ArrayBuffer | undefined>(store.get(key));
+    return result || null;
+  } catch (error) {
+    console.warn('Audio cache read failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Stores audio in the cache. Failures are logged and otherwise ignored.
+ *
+ * @param key - Key from audioCacheKey
+ * @param audioData - The audio to store
+ */
+export async function putCachedAudio(key: string, audioData: ArrayBuffer): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    const db = await getDatabase();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.put(audioData, key));
+  } catch (error) {
+    console.warn('Audio cache write failed:', error);
+  }
+}
+
+/**
+ * Removes all cached audio
+ */
+export async function clearAudioCache(): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  const db = await getDatabase();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await requestToPromise(store.clear());
+}
@@ -0,0 +1,150 @@
+/**
+ * Checks of the speakers and microphone before a test: a test tone, a live
+ * microphone level and a measurement of the background noise.
+ */
+
+import { matchRecalledWords, tokenize } from '@/lib/wordMatching';
+
+export const TONE_FREQUENCY_HZ = 440;
+export const TONE_DURATION_MS = 1000;
+// Length of the background noise measurement
+export const NOISE_MEASUREMENT_MS = 3000;
+// Louder background noise makes recognition unreliable, in dB relative to full scale
+export const MAX_AMBIENT_NOISE_DB = -45;
+// Level reported for silence, in dB relative to full scale
+export const SILENCE_DB = -100;
+
+const NOISE_SAMPLE_INTERVAL_MS = 100;
+
+// Outcome of the checks, kept with the test result
+export interface AudioCalibrationResult {
+  // Playback volume chosen for the test, from 0 to 1
+  volume: number;
+  // False when the user continued without passing the checks
+  passed: boolean;
+  // Background noise in dB relative to full scale; null when it was not measured
+  noiseDb: number | null;
+}
+
+export interface MicrophoneLevel {
+  // Current RMS level of the microphone, from 0 to 1
+  level(): number;
+  // Releases the microphone
+  close(): void;
+}
+
+/**
+ * Returns the RMS level of audio samples
+ *
+ * @param samples - PCM samples in the range -1 to 1
+ */
+export function rmsLevel(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+/**
+ * Converts an RMS level to dB relative to full scale
+ *
+ * @param rms - RMS level from 0 to 1
+ */
+export function toDecibels(rms: number): number {
+  return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+}
+
+/**
+ * Returns true when every word of the test phrase was recognized, allowing for
+ * the same sound-alike words as recall scoring
+ *
+ * @param phrase - The phrase the user was asked to say
+ * @param transcript - Recognized speech
+ * @param language - Language code of the phrase, e.g. 'en'
+ */
+export function isPhraseRecognized(phrase: string, transcript: string, language: string): boolean {
+  const report = matchRecalledWords(tokenize(phrase), transcript, language);
+  return report.matches.every(match => match.matchType !== 'missed');
+}
+
+/**
+ * Plays a sine tone
+ *
+ * @param volume - Playback volume from 0 to 1
+ * @param frequencyHz - Pitch of the tone
+ * @param durationMs - Length of the tone
+ * @returns Promise that resolves when the tone has played
+ */
+export function playTone(volume: number, frequencyHz = TONE_FREQUENCY_HZ, durationMs = TONE_DURATION_MS): Promise<void> {
+  return new Promise((resolve, reject) => {
+    try {
+      const audioContext = new (window.AudioContext || window.webkitAudioContext)();
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      oscillator.frequency.value = frequencyHz;
+      gain.gain.value = volume;
+      oscillator.connect(gain);
+      gain.connect(audioContext.destination);
+
+      oscillator.onended = () => {
+        audioContext.close();
+        resolve();
+      };
+      oscillator.start();
+      oscillator.stop(audioContext.currentTime + durationMs / 1000);
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Opens the microphone and follows its level with an AnalyserNode
+ *
+ * @returns Promise with the level reader
+ * @throws Error when the microphone cannot be opened
+ */
+export async function openMicrophoneLevel(): Promise<MicrophoneLevel> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error('Microphone access is not supported in this browser');
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const audioContext = new (window.AudioContext || window.webkitAudioContext)();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 2048;
+  audioContext.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  return {
+    level: () => {
+      analyser.getFloatTimeDomainData(samples);
+      return rmsLevel(samples);
+    },
+    close: () => {
+      stream.getTracks().forEach(track => track.stop());
+      audioContext.close();
+    },
+  };
+}
+
+/**
+ * Measures the background noise as the median microphone level over a period
+ *
+ * @param microphone - Open microphone
+ * @param durationMs - Length of the measurement
+ * @returns Promise with the noise level in dB relative to full scale
+ */
+export async function measureAmbientNoise(microphone: MicrophoneLevel, durationMs = NOISE_MEASUREMENT_MS): Promise<number> {
+  const levels: number[] = [];
+  for (let elapsed = 0; elapsed < durationMs; elapsed += NOISE_SAMPLE_INTERVAL_MS) {
+    await new Promise(resolve => setTimeout(resolve, NOISE_SAMPLE_INTERVAL_MS));
+    levels.push(microphone.level());
+  }
+
+  // The median ignores a single cough or click
+  levels.sort((a, b) => a - b);
+  return toDecibels(levels[Math.floor(levels.length / 2)] ?? 0);
+}
@@ -0,0 +1,69 @@
+/**
+ * Microphone recording with the MediaRecorder API
+ */
+
+export interface AudioRecording {
+  // Time the recorder started, from performance.now()
+  startedAt: number;
+  /**
+   * Stops recording and releases the microphone
+   *
+   * @returns Promise with the recorded audio
+   */
+  stop(): Promise<Blob>;
+}
+
+/**
+ * Returns true when the browser can record from the microphone
+ */
+export function isRecordingSupported(): boolean {
+  return typeof window !== 'undefined'
+    && typeof window.MediaRecorder !== 'undefined'
+    && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/**
+ * Starts recording from the microphone
+ *
+ * @returns Promise with a handle to stop the recording
+ */
+export async function startRecording(): Promise<AudioRecording> {
+  if (!isRecordingSupported()) {
+    throw new Error('Audio recording is not supported in this browser');
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (event: BlobEvent) => {
+    if (event.data.size > 0) {
+      chunks.push(event.data);
+    }
+  };
+
+  const stopped = new Promise<Blob>((resolve, reject) => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+    };
+    recorder.onerror = (event: Event) => {
+      stream.getTracks().forEach(track => track.stop());
+      reject(new Error(`Recording error: ${event.type}`));
+    };
+  });
+
+  const startedAt = performance.now();
+  recorder.start();
+  console.log('Recording started with MIME type:', recorder.mimeType);
+
+  return {
+    startedAt,
+    stop: () => {
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+      return stopped;
+    },
+  };
+}
@@ -0,0 +1,72 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { getLocaleBundle } from '@/lib/locales';
+import { TestResult } from '@/lib/resultHistory';
+import { createClinicianReport } from './clinicianReport';
+
+const { ui } = getLocaleBundle('en');
+
+const result: TestResult = {
+  testMode: 'miniCog',
+  locale: 'en',
+  score: 4,
+  maxScore: 5,
+  answers: ['apple and penny'],
+  matchReports: [],
+  attempts: [],
+  wordList: ['Apple', 'Watch', 'Penny'],
+  items: [],
+  recallAudio: null,
+  speechTiming: null,
+  timestamp: '2026-10-19T10:00:00.000Z',
+};
+
+const patient = { name: 'Test Patient', identifier: '12345', dateOfBirth: '1950-01-01' };
+
+// jsPDF writes its text uncompressed, one string per line, with parentheses escaped
+async function render(testResult: TestResult) {
+  const pdf = await (await createClinicianReport(testResult, patient, 'a4')).text();
+  return {
+    pages: pdf.match(/\/Type \/Page\b/g)?.length ?? 0,
+    lines: Array.from(pdf.matchAll(/\((.*)\) Tj/g), match => match[1].replace(/\\([()\\])/g, '$1')),
+    // Where a line starts in the file; pages are written in order
+    offset: (text: string) => pdf.indexOf(`(${text}) Tj`),
+  };
+}
+
+describe('createClinicianReport', () => {
+  it('writes the score and interpretation before the details', async () => {
+    const report = await render(result);
+
+    expect(report.pages).toBe(1);
+    expect(report.offset(`4 ${ui.outOf} 5`)).toBeGreaterThan(-1);
+    expect(report.offset(`4 ${ui.outOf} 5`)).toBeLessThan(report.offset('"apple and penny"'));
+    expect(report.offset(ui.interpretation)).toBeLessThan(report.offset(ui.wordsToRemember));
+  });
+
+  it('writes the outcome of the audio check', async () => {
+    const passed = await render({ ...result, calibration: { volume: 0.8, passed: true, noiseDb: -52.4 } });
+    const skipped = await render({ ...result, calibration: { volume: 0.8, passed: false, noiseDb: null } });
+
+    expect(passed.lines).toContain(`${ui.calibrationTitle}: ${ui.checkPassed} (${ui.noiseLevel}: -52 dB)`);
+    expect(skipped.lines).toContain(`${ui.calibrationTitle}: ${ui.checksSkipped}`);
+  });
+
+  it('continues on a new page instead of dropping lines', async () => {
+    const answers = Array.from({ length: 40 }, (_, index) => `answer number ${index + 1}`);
+    const report = await render({ ...result, testMode: 'wordListLearning', answers });
+
+    expect(report.pages).toBeGreaterThan(1);
+    for (const answer of answers) {
+      expect(report.lines).toContain(`"${answer}"`);
+    }
+  });
+
+  it('ends every page with the disclaimer', async () => {
+    const answers = Array.from({ length: 40 }, (_, index) => `answer number ${index + 1}`);
+    const report = await render({ ...result, testMode: 'wordListLearning', answers });
+    const firstDisclaimerLine = report.lines.find(line => ui.disclaimer.startsWith(line))!;
+
+    expect(report.lines.filter(line => line === firstDisclaimerLine)).toHaveLength(report.pages);
+  });
+});
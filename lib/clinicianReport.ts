@@ -0,0 +1,209 @@
+/**
+ * Clinician report of a test session, generated as a PDF in the browser. The
+ * score and its interpretation come first; details that do not fit on the
+ * first page continue on the next.
+ */
+
+import { TestResult } from '@/lib/resultHistory';
+import { TestMode } from '@/lib/testModes';
+import { interpretMiniCog } from '@/lib/miniCog';
+import { interpretMis } from '@/lib/mis';
+import { WordMatch } from '@/lib/wordMatching';
+import { getLocaleBundle, LocaleBundle } from '@/lib/locales';
+
+export type PaperSize = 'a4' | 'letter';
+
+export interface PatientDetails {
+  name: string;
+  identifier: string;
+  dateOfBirth: string;
+}
+
+// Layout in millimetres; the content fits the narrower and shorter of A4 and Letter
+const MARGIN = 18;
+const LINE_HEIGHT = 5;
+const BODY_FONT_SIZE = 10;
+const HEADING_FONT_SIZE = 16;
+const SECTION_FONT_SIZE = 11;
+
+/**
+ * Returns the paper size commonly used for a language tag
+ *
+ * @param languageTag - BCP 47 tag, e.g. 'en-US'
+ */
+export function defaultPaperSize(languageTag: string): PaperSize {
+  return /-(US|CA)$/i.test(languageTag) ? 'letter' : 'a4';
+}
+
+function describeMatch(match: WordMatch, ui: LocaleBundle['ui']): string {
+  if (match.matchType === 'exact') return `${match.word} (${ui.recalledAs} "${match.heardAs}")`;
+  if (match.matchType === 'phonetic') return `${match.word} (${ui.soundsLike} "${match.heardAs}")`;
+  return `${match.word} (${ui.missed})`;
+}
+
+/**
+ * Labels the recall answers of a session, e.g. the learning trials and the delayed recall,
+ * or the free recall and the cued answers of the MIS
+ */
+function answerLabels(result: TestResult, ui: LocaleBundle['ui']): string[] {
+  if (result.testMode === 'wordListLearning') {
+    const trials = result.answers.length - 1;
+    return result.answers.map((_, index) => (index < trials ? ui.trialProgress(index + 1, trials) : ui.delayedRecall));
+  }
+  if (result.testMode === 'mis') {
+    // The free recall is followed by the answers to the category cues
+    return result.answers.map((_, index) => (index === 0 ? ui.freeRecall : ui.cuedRecall));
+  }
+  return result.answers.map(() => ui.yourResponse);
+}
+
+/**
+ * Renders the clinician report of a session
+ *
+ * @param result - The session result
+ * @param patient - Patient identifier fields; empty fields are left blank to fill in by hand
+ * @param paperSize - Page format
+ * @returns Promise with the PDF file
+ */
+export async function createClinicianReport(
+  result: TestResult,
+  patient: PatientDetails,
+  paperSize: PaperSize
+): Promise<Blob> {
+  // jsPDF is only needed when a report is requested
+  const { jsPDF } = await import('jspdf');
+
+  const bundle = getLocaleBundle(result.locale);
+  const { ui } = bundle;
+  const modeLabels: Record<TestMode, string> = {
+    miniCog: ui.modeMiniCog,
+    mis: ui.modeMis,
+    orientation: ui.modeOrientation,
+    digitSpan: ui.modeDigitSpan,
+    wordListLearning: ui.modeWordListLearning,
+  };
+
+  const doc = new jsPDF({ unit: 'mm', format: paperSize });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - 2 * MARGIN;
+
+  // The disclaimer is anchored to the bottom of every page; the body stops above it
+  doc.setFont('helvetica', 'italic');
+  doc.setFontSize(BODY_FONT_SIZE - 1);
+  const disclaimer: string[] = doc.splitTextToSize(ui.disclaimer, contentWidth);
+  const disclaimerTop = pageHeight - MARGIN - disclaimer.length * LINE_HEIGHT;
+  const bodyBottom = disclaimerTop - 6;
+  const writeDisclaimer = () => {
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(BODY_FONT_SIZE - 1);
+    doc.text(disclaimer, MARGIN, disclaimerTop + LINE_HEIGHT);
+    doc.setDrawColor(0);
+    doc.line(MARGIN, disclaimerTop - 2, pageWidth - MARGIN, disclaimerTop - 2);
+  };
+  writeDisclaimer();
+
+  let y = MARGIN;
+
+  // Write wrapped text, continuing on a new page when the body is full
+  const write = (text: string, fontStyle: 'normal' | 'bold' = 'normal', fontSize = BODY_FONT_SIZE) => {
+    doc.setFont('helvetica', fontStyle);
+    doc.setFontSize(fontSize);
+    const lines: string[] = doc.splitTextToSize(text, contentWidth);
+    for (const line of lines) {
+      if (y + LINE_HEIGHT > bodyBottom) {
+        doc.addPage(paperSize);
+        writeDisclaimer();
+        doc.setFont('helvetica', fontStyle);
+        doc.setFontSize(fontSize);
+        y = MARGIN;
+      }
+      y += LINE_HEIGHT;
+      doc.text(line, MARGIN, y);
+    }
+  };
+
+  const section = (title: string) => {
+    y += 2;
+    write(title, 'bold', SECTION_FONT_SIZE);
+  };
+
+  write(ui.reportTitle, 'bold', HEADING_FONT_SIZE);
+  y += 2;
+
+  const blank = '____________________';
+  write(`${ui.patientName}: ${patient.name || blank}`);
+  write(`${ui.patientId}: ${patient.identifier || blank}`);
+  write(`${ui.dateOfBirth}: ${patient.dateOfBirth || blank}`);
+  write(`${ui.reportDate}: ${new Date(result.timestamp).toLocaleString(bundle.speechLang)}`);
+  write(`${ui.testModeLabel}: ${modeLabels[result.testMode]}`);
+  write(`${ui.answerModality}: ${ui.answerModalities[result.answerModality ?? 'speech']}`);
+  if (result.calibration) {
+    const { passed, noiseDb } = result.calibration;
+    const noise = noiseDb !== null ? ` (${ui.noiseLevel}: ${Math.round(noiseDb)} dB)` : '';
+    write(`${ui.calibrationTitle}: ${passed ? ui.checkPassed : ui.checksSkipped}${noise}`);
+  }
+
+  section(ui.totalScore);
+  write(`${result.score} ${ui.outOf} ${result.maxScore}`);
+
+  section(ui.interpretation);
+  const interpretations: Record<TestMode, string> = {
+    miniCog: interpretMiniCog(result.score, bundle),
+    mis: interpretMis(result.score, bundle),
+    orientation: ui.noInterpretation,
+    digitSpan: ui.noInterpretation,
+    wordListLearning: ui.noInterpretation,
+  };
+  write(interpretations[result.testMode]);
+
+  if (result.orientation) {
+    section(ui.orientation);
+    for (const answer of result.orientation.answers) {
+      const expected = answer.correct ? '' : ` (${ui.expectedAnswer}: ${answer.expected})`;
+      write(`${ui.orientationItems[answer.item]}: "${answer.transcript}"${expected}`);
+    }
+    write(`${ui.orientationTotal}: ${result.orientation.totalScore} ${ui.outOf} ${result.orientation.maxScore}`);
+  }
+
+  if (result.interference) {
+    const { interference } = result;
+    section(`${ui.interferenceTask}: ${ui.interferenceTasks[interference.task]}`);
+    write(`${ui.heardAnswer}: ${interference.given.join(' ') || ui.noSpeechDetected} (${ui.expectedAnswer}: ${interference.expected.join(' ')})`);
+    write(`${ui.interferenceCorrect}: ${interference.correct} ${ui.outOf} ${interference.maxScore}`);
+  }
+
+  if (result.wordList.length > 0) {
+    section(ui.wordsToRemember);
+    write(result.wordList.join(', '));
+  }
+
+  const labels = answerLabels(result, ui);
+  result.answers.forEach((answer, index) => {
+    section(labels[index]);
+    write(`"${answer}"`);
+    const report = result.matchReports[index];
+    if (report) {
+      write(`${ui.wordMatches}: ${report.matches.map(match => describeMatch(match, ui)).join(', ')}`);
+    }
+  });
+
+  if (result.fluency) {
+    const { fluency } = result;
+    section(ui.animalFluency);
+    write(`${fluency.validCount} (${ui.fluencyPerBin}: ${fluency.binCounts.join(' / ')}; ${ui.perseverations}: ${fluency.perseverations}; ${ui.intrusions}: ${fluency.intrusions})`);
+    write(fluency.words.map(word => word.word).join(', '));
+  }
+
+  for (const span of [result.digitSpan?.forward, result.digitSpan?.backward]) {
+    if (!span) continue;
+    section(span.direction === 'forward' ? ui.digitSpanForward : ui.digitSpanBackward);
+    for (const trial of span.trials) {
+      const missed = trial.correct ? '' : ` (${ui.missed})`;
+      write(`${trial.digits.join(' ')}: ${trial.given.join(' ') || ui.noSpeechDetected}${missed}`);
+    }
+    write(`${ui.longestSpan}: ${span.longestSpan} ${ui.outOf} ${span.maxLength}`);
+  }
+
+  return doc.output('blob');
+}
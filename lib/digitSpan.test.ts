@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { getLocaleBundle } from '@/lib/locales';
+import { generateDigitSequence, nextDigitSpanLength, parseSpokenDigits, scoreDigitSpanTrial } from './digitSpan';
+
+const { numbers } = getLocaleBundle('en');
+
+describe('parseSpokenDigits', () => {
+  it('splits numbers into their digits', () => {
+    expect(parseSpokenDigits('seven two nine', numbers)).toEqual([7, 2, 9]);
+    expect(parseSpokenDigits('729', numbers)).toEqual([7, 2, 9]);
+    expect(parseSpokenDigits('seventy-two nine', numbers)).toEqual([7, 2, 9]);
+    expect(parseSpokenDigits('nineteen ninety', numbers)).toEqual([1, 9, 9, 0]);
+  });
+
+  it('keeps the leading zero of digits recognized as one number', () => {
+    expect(parseSpokenDigits('072', numbers)).toEqual([0, 7, 2]);
+    expect(parseSpokenDigits('0 7 2', numbers)).toEqual([0, 7, 2]);
+    expect(parseSpokenDigits('five 0038', numbers)).toEqual([5, 0, 0, 3, 8]);
+  });
+
+  it('reads "oh" and "o" as zero', () => {
+    expect(parseSpokenDigits('seven oh three', numbers)).toEqual([7, 0, 3]);
+    expect(parseSpokenDigits('five o one', numbers)).toEqual([5, 0, 1]);
+    expect(parseSpokenDigits('oh oh seven', numbers)).toEqual([0, 0, 7]);
+  });
+
+  it('reads "to", "too" and "for" as digits', () => {
+    expect(parseSpokenDigits('one to three', numbers)).toEqual([1, 2, 3]);
+    expect(parseSpokenDigits('too six', numbers)).toEqual([2, 6]);
+    expect(parseSpokenDigits('eight for one', numbers)).toEqual([8, 4, 1]);
+  });
+
+  it('ignores other words', () => {
+    expect(parseSpokenDigits('I think it was three and then five', numbers)).toEqual([3, 5]);
+  });
+});
+
+describe('scoreDigitSpanTrial', () => {
+  it('expects the digits in order forward and reversed backward', () => {
+    expect(scoreDigitSpanTrial('forward', [7, 0, 2], 'seven oh to', numbers).correct).toBe(true);
+    expect(scoreDigitSpanTrial('backward', [7, 0, 2], 'two oh seven', numbers).correct).toBe(true);
+    expect(scoreDigitSpanTrial('backward', [7, 0, 2], 'seven oh two', numbers).correct).toBe(false);
+  });
+
+  it('does not accept extra digits', () => {
+    expect(scoreDigitSpanTrial('forward', [4, 1], 'four one one', numbers).correct).toBe(false);
+  });
+});
+
+describe('nextDigitSpanLength', () => {
+  const trial = (length: number, correct: boolean) => ({ length, digits: [], transcript: '', given: [], correct });
+
+  it('gives each length twice and stops after two failures at one length', () => {
+    expect(nextDigitSpanLength([], 3, 9)).toBe(3);
+    expect(nextDigitSpanLength([trial(3, true)], 3, 9)).toBe(3);
+    expect(nextDigitSpanLength([trial(3, true), trial(3, false)], 3, 9)).toBe(4);
+    expect(nextDigitSpanLength([trial(4, false), trial(4, false)], 3, 9)).toBeNull();
+    expect(nextDigitSpanLength([trial(9, true), trial(9, true)], 3, 9)).toBeNull();
+  });
+});
+
+describe('generateDigitSequence', () => {
+  it('never repeats a digit twice in a row', () => {
+    const values = [0.1, 0.1, 0.1, 0.5, 0.5, 0.9];
+    expect(generateDigitSequence(3, () => values.shift()!)).toEqual([1, 5, 9]);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Digit span: sequences of digits of increasing length are spoken and repeated
+ * in the same order (forward) or in reverse (backward).
+ *
+ * Each length is given twice; the task stops after two failed trials at one
+ * length or after the longest sequence. The span is the longest length with a
+ * correctly repeated trial.
+ */
+
+import { NumberLexicon, parseSpokenNumbers } from '@/lib/spokenNumbers';
+
+export type DigitSpanDirection = 'forward' | 'backward';
+
+export const DIGIT_SPAN_TRIALS_PER_LENGTH = 2;
+// Failed trials at one length that end the task
+export const DIGIT_SPAN_MAX_FAILURES = 2;
+
+export interface DigitSpanTrial {
+  length: number;
+  // Digits in the order they were spoken
+  digits: number[];
+  transcript: string;
+  // Digits understood from the answer
+  given: number[];
+  correct: boolean;
+}
+
+export interface DigitSpanScore {
+  direction: DigitSpanDirection;
+  // Longest correctly repeated length, 0 when none was
+  longestSpan: number;
+  maxLength: number;
+  trials: DigitSpanTrial[];
+}
+
+/**
+ * Returns a random digit sequence without the same digit twice in a row
+ *
+ * @param length - Number of digits
+ * @param random - Source of numbers in [0, 1)
+ */
+export function generateDigitSequence(length: number, random: () => number = Math.random): number[] {
+  const digits: number[] = [];
+  while (digits.length < length) {
+    const digit = Math.floor(random() * 10);
+    if (digit !== digits[digits.length - 1]) digits.push(digit);
+  }
+  return digits;
+}
+
+/**
+ * Reads the digits of a spoken answer. Numbers are split into their digits, so
+ * "seven two nine", "729" and "seventy-two nine" all give 7, 2, 9, and words
+ * that sound like a digit count as one ("seven oh to" gives 7, 0, 2).
+ *
+ * @param transcript - Recognized speech
+ * @param numbers - Number words of the speech language
+ * @returns The digits in the order they were said
+ */
+export function parseSpokenDigits(transcript: string, numbers: NumberLexicon): number[] {
+  // Digits said in a row are never a year ("nineteen ninety")
+  const lexicon = { ...numbers, words: { ...numbers.words, ...numbers.digitHomophones }, pairedYears: false };
+  // Recognized digits are read one by one, so the leading zero of "072" is kept
+  const spacedDigits = transcript.replace(/\d+/g, run => [...run].join(' '));
+  return parseSpokenNumbers(spacedDigits, lexicon)
+    .flatMap(number => [...String(number)].map(Number));
+}
+
+/**
+ * Scores one repetition
+ *
+ * @param direction - Forward or backward
+ * @param digits - Digits in the order they were spoken
+ * @param transcript - The spoken answer
+ * @param numbers - Number words of the speech language
+ * @returns The scored trial
+ */
+export function scoreDigitSpanTrial(
+  direction: DigitSpanDirection,
+  digits: number[],
+  transcript: string,
+  numbers: NumberLexicon
+): DigitSpanTrial {
+  const expected = direction === 'forward' ? digits : [...digits].reverse();
+  const given = parseSpokenDigits(transcript, numbers);
+  return {
+    length: digits.length,
+    digits,
+    transcript,
+    given,
+    correct: given.length === expected.length && given.every((digit, index) => digit === expected[index]),
+  };
+}
+
+/**
+ * Returns the length of the next trial, or null when the task is over
+ *
+ * @param trials - Trials given so far, in order
+ * @param startLength - Length of the first trial
+ * @param maxLength - Longest sequence
+ */
+export function nextDigitSpanLength(trials: DigitSpanTrial[], startLength: number, maxLength: number): number | null {
+  const last = trials[trials.length - 1];
+  if (!last) return startLength;
+
+  const atLength = trials.filter(trial => trial.length === last.length);
+  if (atLength.filter(trial => !trial.correct).length >= DIGIT_SPAN_MAX_FAILURES) return null;
+  if (atLength.length < DIGIT_SPAN_TRIALS_PER_LENGTH) return last.length;
+  return last.length < maxLength ? last.length + 1 : null;
+}
+
+/**
+ * Summarizes the trials of one direction
+ *
+ * @param direction - Forward or backward
+ * @param trials - Every trial given
+ * @param maxLength - Longest sequence of the task
+ */
+export function scoreDigitSpan(direction: DigitSpanDirection, trials: DigitSpanTrial[], maxLength: number): DigitSpanScore {
+  return {
+    direction,
+    longestSpan: Math.max(0, ...trials.filter(trial => trial.correct).map(trial => trial.length)),
+    maxLength,
+    trials,
+  };
+}
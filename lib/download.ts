@@ -0,0 +1,20 @@
+/**
+ * Browser file download helper
+ */
+
+/**
+ * Offers data to the user as a file download
+ *
+ * @param data - File contents
+ * @param filename - Suggested file name
+ */
+export function downloadFile(data: Blob, filename: string): void {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
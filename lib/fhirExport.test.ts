@@ -0,0 +1,97 @@
+import { createRequire } from 'node:module';
+import { beforeAll, describe, expect, it } from 'vitest';
+import Ajv, { ValidateFunction } from 'ajv';
+import draft06 from 'ajv/dist/refs/json-schema-draft-06.json';
+import { TestResult } from '@/lib/resultHistory';
+import { createFhirBundle } from './fhirExport';
+
+// The FHIR R4 JSON schema as published with the specification (fhir.schema.json)
+const FHIR_SCHEMA = '@asymmetrik/fhir-json-schema-validator/fhir.schema.json';
+
+const result: TestResult = {
+  testMode: 'miniCog',
+  locale: 'en',
+  score: 4,
+  maxScore: 5,
+  answers: ['apple penny'],
+  matchReports: [],
+  attempts: [],
+  wordList: ['Apple', 'Watch', 'Penny'],
+  items: [
+    { linkId: 'recall.transcript', text: 'Recall answer', answer: 'apple penny' },
+    { linkId: 'recall.score', text: 'Words recalled', answer: 2 },
+    { linkId: 'clock.normal', text: 'Clock drawing normal', answer: true },
+    { linkId: 'timing.latency', text: 'Response latency (s)', answer: 1.25 },
+    { linkId: 'fluency.transcript', text: 'Animals named', answer: '' },
+  ],
+  recallAudio: null,
+  speechTiming: null,
+  answerModality: 'speech',
+  timestamp: '2026-10-19T10:00:00.000Z',
+};
+
+let validators: Record<'Bundle' | 'QuestionnaireResponse' | 'Observation', ValidateFunction>;
+
+beforeAll(() => {
+  // Unknown keywords such as the schema's "discriminator" carry no constraints
+  const ajv = new Ajv({ strict: false, allErrors: true });
+  ajv.addMetaSchema(draft06);
+  // The draft-06 schema names itself with "id", which Ajv only reads as "$id"
+  const { id, ...schema } = createRequire(import.meta.url)(FHIR_SCHEMA);
+  ajv.addSchema({ ...schema, $id: id });
+  const validator = (resourceType: string) => ajv.getSchema(`${id}#/definitions/${resourceType}`)!;
+  validators = {
+    Bundle: validator('Bundle'),
+    QuestionnaireResponse: validator('QuestionnaireResponse'),
+    Observation: validator('Observation'),
+  };
+}, 60000);
+
+const resource = (resourceType: string) =>
+  createFhirBundle(result).entry.map(entry => entry.resource).find(entry => entry.resourceType === resourceType);
+
+describe('createFhirBundle', () => {
+  it.each(['Bundle', 'QuestionnaireResponse', 'Observation'] as const)('exports a valid FHIR R4 %s', resourceType => {
+    const validate = validators[resourceType];
+    const exported = resourceType === 'Bundle' ? createFhirBundle(result) : resource(resourceType);
+
+    expect(exported).toBeDefined();
+    expect(validate(exported), JSON.stringify(validate.errors, null, 2)).toBe(true);
+  });
+
+  it('exports a valid Bundle for every test', () => {
+    for (const testMode of ['miniCog', 'mis', 'orientation', 'digitSpan', 'wordListLearning'] as const) {
+      const bundle = createFhirBundle({ ...result, testMode });
+      expect(validators.Bundle(bundle), JSON.stringify(validators.Bundle.errors, null, 2)).toBe(true);
+    }
+  });
+
+  it('leaves unanswered items out and keeps the answer types', () => {
+    const questionnaireResponse = resource('QuestionnaireResponse') as { item: { linkId: string; answer: object[] }[] };
+
+    expect(questionnaireResponse.item.map(item => [item.linkId, Object.keys(item.answer[0])[0]])).toEqual([
+      ['recall.transcript', 'valueString'],
+      ['recall.score', 'valueInteger'],
+      ['clock.normal', 'valueBoolean'],
+      ['timing.latency', 'valueDecimal'],
+    ]);
+  });
+
+  it('links the score to the answers', () => {
+    const [questionnaireResponse, observation] = createFhirBundle(result).entry;
+    const { derivedFrom, valueQuantity } = observation.resource as {
+      derivedFrom: { reference: string }[];
+      valueQuantity: { value: number };
+    };
+
+    expect(valueQuantity.value).toBe(4);
+    expect(derivedFrom[0].reference).toBe(questionnaireResponse.fullUrl);
+  });
+
+  it('is checked against the schema', () => {
+    // The schema rejects what R4 does not allow, so the checks above mean something
+    expect(validators.Observation({ ...resource('Observation'), status: 'done' })).toBe(false);
+    expect(validators.QuestionnaireResponse({ ...resource('QuestionnaireResponse'), authored: 'yesterday' })).toBe(false);
+    expect(validators.Bundle({ ...createFhirBundle(result), type: 'pile' })).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Export of test results as FHIR R4 resources.
+ *
+ * A result becomes a collection Bundle holding one QuestionnaireResponse,
+ * with an item for every answered test item, and one Observation carrying
+ * the total score.
+ */
+
+import { TestResult, TestItemResult } from '@/lib/resultHistory';
+import { TestMode } from '@/lib/testModes';
+
+interface Coding {
+  system: string;
+  code: string;
+  display: string;
+}
+
+// Local code system for scores that have no LOINC code
+const LOCAL_CODE_SYSTEM = 'urn:alzheimers-voice-test:codes';
+
+const TOTAL_SCORE_CODES: Record<TestMode, Coding[]> = {
+  miniCog: [
+    { system: 'http://loinc.org', code: '72233-5', display: 'Total score [Mini-Cog]' },
+  ],
+  mis: [
+    { system: LOCAL_CODE_SYSTEM, code: 'mis-total', display: 'Memory Impairment Screen total score' },
+  ],
+  orientation: [
+    { system: LOCAL_CODE_SYSTEM, code: 'orientation-total', display: 'Orientation to time and place total score' },
+  ],
+  digitSpan: [
+    { system: LOCAL_CODE_SYSTEM, code: 'digit-span-total', display: 'Digit span forward and backward total score' },
+  ],
+  wordListLearning: [
+    { system: LOCAL_CODE_SYSTEM, code: 'word-list-learning-total', display: 'Word list learning total score' },
+  ],
+};
+
+const TEST_TITLES: Record<TestMode, string> = {
+  miniCog: 'Mini-Cog',
+  mis: 'Memory Impairment Screen',
+  orientation: 'Orientation to time and place',
+  digitSpan: 'Digit span forward and backward',
+  wordListLearning: 'Word list learning (10 words, 3 trials)',
+};
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: Record<string, unknown> }[];
+}
+
+function newUrn(): string {
+  return `urn:uuid:${crypto.randomUUID()}`;
+}
+
+/**
+ * Converts an item answer to the matching FHIR answer value
+ */
+function toAnswerValue(answer: TestItemResult['answer']): Record<string, unknown> {
+  if (typeof answer === 'boolean') return { valueBoolean: answer };
+  if (typeof answer === 'number' && Number.isInteger(answer)) return { valueInteger: answer };
+  if (typeof answer === 'number') return { valueDecimal: answer };
+  return { valueString: answer };
+}
+
+/**
+ * Builds a FHIR R4 Bundle for a test result
+ *
+ * @param result - The result to export
+ * @returns The Bundle as a plain JSON object
+ */
+export function createFhirBundle(result: TestResult): FhirBundle {
+  const questionnaireResponseUrl = newUrn();
+  const observationUrl = newUrn();
+
+  const questionnaireResponse = {
+    resourceType: 'QuestionnaireResponse',
+    status: 'completed',
+    authored: result.timestamp,
+    language: result.locale,
+    item: result.items
+      .filter(item => item.answer !== '')
+      .map(item => ({
+        linkId: item.linkId,
+        text: item.text,
+        answer: [toAnswerValue(item.answer)],
+      })),
+  };
+
+  const observation = {
+    resourceType: 'Observation',
+    status: 'final',
+    category: [{
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+        code: 'survey',
+        display: 'Survey',
+      }],
+    }],
+    code: {
+      coding: TOTAL_SCORE_CODES[result.testMode],
+      text: `${TEST_TITLES[result.testMode]} total score`,
+    },
+    effectiveDateTime: result.timestamp,
+    valueQuantity: {
+      value: result.score,
+      unit: '{score}',
+      system: 'http://unitsofmeasure.org',
+      code: '{score}',
+    },
+    referenceRange: [{
+      low: { value: 0, unit: '{score}', system: 'http://unitsofmeasure.org', code: '{score}' },
+      high: { value: result.maxScore, unit: '{score}', system: 'http://unitsofmeasure.org', code: '{score}' },
+    }],
+    derivedFrom: [{ reference: questionnaireResponseUrl }],
+  };
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: [
+      { fullUrl: questionnaireResponseUrl, resource: questionnaireResponse },
+      { fullUrl: observationUrl, resource: observation },
+    ],
+  };
+}
+
+/**
+ * Serializes a test result as a downloadable FHIR JSON file
+ *
+ * @param result - The result to export
+ * @returns Blob with the Bundle JSON
+ */
+export function createFhirBundleFile(result: TestResult): Blob {
+  return new Blob([JSON.stringify(createFhirBundle(result), null, 2)], { type: 'application/fhir+json' });
+}
@@ -0,0 +1,125 @@
+/**
+ * Scoring of the verbal fluency task ("name as many animals as you can").
+ *
+ * The transcript is matched against a category lexicon, longest entry first so
+ * "polar bear" counts once. A word said again is a perseveration; any other
+ * word that is not in the lexicon or a filler word is an intrusion. Valid words
+ * are also counted per time bin to show how the output is spread over the minute.
+ */
+
+import { Lexicon } from '@/lib/lexicons';
+import { tokenize, normalizeWord } from '@/lib/wordMatching';
+
+// A final recognition result and when it arrived, relative to the start of listening
+export interface TranscriptSegment {
+  text: string;
+  offsetMs: number;
+}
+
+export type FluencyWordKind = 'valid' | 'perseveration' | 'intrusion';
+
+export interface FluencyWord {
+  word: string;
+  kind: FluencyWordKind;
+  offsetMs: number;
+}
+
+export interface FluencyScore {
+  category: string;
+  // Unique valid words
+  validCount: number;
+  words: FluencyWord[];
+  perseverations: number;
+  intrusions: number;
+  // Unique valid words in each bin
+  binCounts: number[];
+  binMs: number;
+}
+
+// Longest lexicon entry, in words, that is looked up
+const MAX_ENTRY_WORDS = 3;
+
+// Drops elided articles ("l'ours", "d'inde") and English plural endings
+function normalizeToken(token: string, language: string): string {
+  return normalizeWord(token.replace(/^\p{L}'/u, ''), language);
+}
+
+function normalizeEntry(entry: string, language: string): string {
+  return tokenize(entry).map(token => normalizeToken(token, language)).join(' ');
+}
+
+/**
+ * Scores the responses of a fluency task
+ *
+ * @param segments - Final recognition results with their arrival time
+ * @param lexicon - Lexicon of the session language
+ * @param language - Code of the session language, e.g. 'en'
+ * @param category - Fluency category, e.g. 'animals'
+ * @param durationMs - Length of the task
+ * @param binMs - Length of each time bin
+ * @returns The fluency score
+ * @throws Error when the lexicon has no such category
+ */
+export function scoreFluency(
+  segments: TranscriptSegment[],
+  lexicon: Lexicon,
+  language: string,
+  category: string,
+  durationMs: number,
+  binMs: number
+): FluencyScore {
+  const entries = lexicon.categories[category];
+  if (!entries) {
+    throw new Error(`No lexicon for fluency category: ${category}`);
+  }
+
+  const validEntries = new Set(entries.map(entry => normalizeEntry(entry, language)));
+  const fillers = new Set(lexicon.fillerWords.map(word => normalizeToken(word, language)));
+  const binCounts = new Array<number>(Math.max(1, Math.ceil(durationMs / binMs))).fill(0);
+  const said = new Set<string>();
+  const words: FluencyWord[] = [];
+
+  for (const segment of segments) {
+    const tokens = tokenize(segment.text);
+    const normalized = tokens.map(token => normalizeToken(token, language));
+    const bin = Math.min(binCounts.length - 1, Math.floor(segment.offsetMs / binMs));
+
+    let index = 0;
+    while (index < tokens.length) {
+      // Longest lexicon entry starting at this token
+      let length = Math.min(MAX_ENTRY_WORDS, tokens.length - index);
+      while (length > 0 && !validEntries.has(normalized.slice(index, index + length).join(' '))) {
+        length--;
+      }
+
+      if (length > 0) {
+        const key = normalized.slice(index, index + length).join(' ');
+        const repeated = said.has(key);
+        said.add(key);
+        if (!repeated) binCounts[bin]++;
+        words.push({
+          word: tokens.slice(index, index + length).join(' '),
+          kind: repeated ? 'perseveration' : 'valid',
+          offsetMs: segment.offsetMs,
+        });
+        index += length;
+        continue;
+      }
+
+      if (!fillers.has(normalized[index]) && /\p{L}/u.test(tokens[index])) {
+        words.push({ word: tokens[index], kind: 'intrusion', offsetMs: segment.offsetMs });
+      }
+      index++;
+    }
+  }
+
+  return {
+    category,
+    validCount: said.size,
+    words,
+    perseverations: words.filter(word => word.kind === 'perseveration').length,
+    intrusions: words.filter(word => word.kind === 'intrusion').length,
+    binCounts,
+    binMs,
+  };
+}
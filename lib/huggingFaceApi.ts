@@ -1,41 +1,45 @@
 /**
- * Hugging Face API client for Qwen2-Audio text-to-speech model
+ * Hugging Face API client for Qwen2-Audio text-to-speech model.
+ * Requests go through the /api/tts proxy route, which holds the API token.
  */
 
-// Check if the token is available and log a warning if it's not
-const HF_API_TOKEN = process.env.NEXT_PUBLIC_HF_API_TOKEN || '';
-if (!HF_API_TOKEN) {
-  console.warn('NEXT_PUBLIC_HF_API_TOKEN is not set. API calls will fail.');
-}
+import {
+  TtsProvider,
+  TtsOptions,
+  registerTtsProvider,
+  setTtsProviderOrder,
+  getTtsProviders,
+  createHttpTtsProvider,
+} from '@/lib/ttsProviders';
+import { audioCacheKey, getCachedAudio, putCachedAudio } from '@/lib/audioCache';
+import { abortError, delay, untilAborted } from '@/lib/testSession';
 
-// Using Qwen2-Audio model instead of Sesame CSM
-const API_URL = "https://api-inference.huggingface.co/models/Qwen/Qwen2-Audio";
+const TTS_PROXY_URL = "/api/tts";
 
 /**
- * Converts text to speech using the Qwen2-Audio model via Hugging Face Inference API
+ * Converts text to speech using the Qwen2-Audio model via the TTS proxy route
  * 
  * @param text - The text to convert to speech
+ * @param voice - Voice to request from the model
+ * @param locale - Language of the text, e.g. 'en-US'
+ * @param signal - Cancels the request
  * @returns Promise with audio data as ArrayBuffer
  */
-export async function textToSpeech(text: string) : Promise<ArrayBuffer> {
+export async function textToSpeech(text: string, voice = "default", locale?: string, signal?: AbortSignal) : Promise<ArrayBuffer> {
   console.log('Calling Qwen2-Audio API with text:', text);
-  console.log('Using API URL:', API_URL);
-  console.log('Token available:', !!HF_API_TOKEN);
   
   try {
-    const response = await fetch(API_URL, {
+    const response = await fetch(TTS_PROXY_URL, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${HF_API_TOKEN}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        inputs: {
-          text: text,
-          model: "qwen2-audio-1.5b", // You can also use "qwen2-audio-7b" for higher quality
-          voice: "default"
-        }
+        text,
+        voice,
+        locale,
       }),
+      signal,
     });
 
     console.log('API response status:', response.status);
@@ -72,34 +76,99 @@ export async function textToSpeech(text: string) : Promise<ArrayBuffer> {
   }
 }
 
+/**
+ * Alternative TTS model in case Qwen2-Audio is not working
+ * Uses Facebook's MMS TTS model for the requested language
+ * 
+ * @param text - The text to convert to speech
+ * @param locale - Language of the text, e.g. 'nl-NL'
+ * @param signal - Cancels the request
+ * @returns Promise with audio data as ArrayBuffer
+ */
+export async function fallbackTextToSpeech(text: string, locale?: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  console.log('Using fallback TTS model');
+  
+  try {
+    const response = await fetch(TTS_PROXY_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        text,
+        locale,
+        model: 'mms',
+      }),
+      signal,
+    });
+
+    console.log('Fallback API response status:', response.status);
+    
+    if (!response.ok) {
+      throw new Error(`Fallback API request failed: Status: ${response.status} ${response.statusText}`);
+    }
+
+    const arrayBuffer = await response.arrayBuffer();
+    console.log('Received fallback audio data of size:', arrayBuffer.byteLength);
+    return arrayBuffer;
+  } catch (error) {
+    console.error('Error calling fallback API:', error);
+    throw error;
+  }
+}
+
 /**
  * Plays audio from the Qwen2-Audio model
  * 
  * @param audioData - ArrayBuffer containing audio data
- * @returns Promise that resolves when audio playback is complete
+ * @param options - Playback volume and rate, and a signal that stops the playback
+ * @returns Promise that resolves when audio playback is complete, or rejects with an AbortError when stopped
  */
-export function playAudio(audioData: ArrayBuffer): Promise<void> {
+export function playAudio(audioData: ArrayBuffer, options: TtsOptions = {}): Promise<void> {
   console.log('Playing audio of size:', audioData.byteLength);
   
   return new Promise((resolve, reject) => {
+    const { signal } = options;
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    
     try {
       const audioContext = new (window.AudioContext || window.webkitAudioContext)();
+      let playing: AudioBufferSourceNode | null = null;
+      
+      const onAbort = () => {
+        console.log('Audio playback stopped');
+        playing?.stop();
+        audioContext.close();
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
       
       audioContext.decodeAudioData(audioData, (buffer: AudioBuffer) => {
+        if (signal?.aborted) return;
         console.log('Audio decoded successfully. Duration:', buffer.duration);
         
         const source = audioContext.createBufferSource();
         source.buffer = buffer;
-        source.connect(audioContext.destination);
+        source.playbackRate.value = options.rate ?? 1;
+        const gain = audioContext.createGain();
+        gain.gain.value = options.volume ?? 1;
+        source.connect(gain);
+        gain.connect(audioContext.destination);
         
         source.onended = () => {
+          signal?.removeEventListener('abort', onAbort);
           console.log('Audio playback completed');
           resolve();
         };
         
         console.log('Starting audio playback');
         source.start(0);
+        playing = source;
       }, (err: Error) => {
+        signal?.removeEventListener('abort', onAbort);
         console.error('Failed to decode audio data:', err);
         reject(new Error(`Failed to decode audio data: ${err}`));
       });
@@ -114,9 +183,10 @@ export function playAudio(audioData: ArrayBuffer): Promise<void> {
  * Fallback to Web Speech API if Hugging Face API fails
  * 
  * @param text - The text to speak
- * @returns Promise that resolves when speech is complete
+ * @param options - Voice, rate, pitch and volume; without a voice, a browser voice matching the locale is used if available
+ * @returns Promise that resolves when speech is complete, or rejects with an AbortError when the signal cancels it
  */
-export function webSpeechFallback(text: string): Promise<void> {
+export function webSpeechFallback(text: string, options: TtsOptions = {}): Promise<void> {
   console.log('Using Web Speech API fallback for text:', text);
   
   return new Promise((resolve, reject) => {
@@ -125,14 +195,49 @@ export function webSpeechFallback(text: string): Promise<void> {
       return;
     }
     
+    const { locale, signal } = options;
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    
     const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = options.rate ?? 1;
+    utterance.pitch = options.pitch ?? 1;
+    utterance.volume = options.volume ?? 1;
+    
+    const voices = window.speechSynthesis.getVoices();
+    const chosenVoice = options.voice && voices.find(v => v.voiceURI === options.voice || v.name === options.voice);
+    if (locale) {
+      utterance.lang = locale;
+    }
+    if (chosenVoice) {
+      utterance.voice = chosenVoice;
+    } else if (locale) {
+      const language = locale.split('-')[0];
+      const voice = voices.find(v => v.lang === locale) || voices.find(v => v.lang.startsWith(language));
+      if (voice) {
+        utterance.voice = voice;
+      }
+    }
+    
+    // Cancelling ends the utterance with an error event, which is then expected
+    const onAbort = () => {
+      console.log('Web Speech API playback cancelled');
+      window.speechSynthesis.cancel();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
     
     utterance.onend = () => {
+      signal?.removeEventListener('abort', onAbort);
       console.log('Web Speech API playback completed');
       resolve();
     };
     
     utterance.onerror = (event) => {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) return;
       console.error('Web Speech API error:', event);
       reject(new Error(`Speech synthesis error: ${event.error}`));
     };
@@ -142,43 +247,161 @@ export function webSpeechFallback(text: string): Promise<void> {
   });
 }
 
+export const huggingFaceProvider: TtsProvider = {
+  name: 'huggingface',
+  capabilities: { returnsAudio: true, requiresNetwork: true },
+  synthesize: (text, options) => textToSpeech(text, options?.voice, options?.locale, options?.signal),
+};
+
+export const mmsProvider: TtsProvider = {
+  name: 'huggingface-mms',
+  capabilities: { returnsAudio: true, requiresNetwork: true },
+  synthesize: (text, options) => fallbackTextToSpeech(text, options?.locale, options?.signal),
+};
+
+export const webSpeechProvider: TtsProvider = {
+  name: 'web-speech',
+  capabilities: { returnsAudio: false, requiresNetwork: false },
+  synthesize: async (text, options) => {
+    await webSpeechFallback(text, options);
+    return null;
+  },
+};
+
+// Default providers: Qwen2-Audio first, then the browser's own speech synthesis
+registerTtsProvider(huggingFaceProvider, 10);
+registerTtsProvider(webSpeechProvider, 20);
+
+// Optional self-hosted TTS server, e.g. NEXT_PUBLIC_LOCAL_TTS_URL=http://localhost:5002/tts
+if (process.env.NEXT_PUBLIC_LOCAL_TTS_URL) {
+  registerTtsProvider(createHttpTtsProvider('local-http', process.env.NEXT_PUBLIC_LOCAL_TTS_URL), 0);
+}
+
+// Optional provider order override, e.g. NEXT_PUBLIC_TTS_PROVIDERS=local-http,huggingface-mms,web-speech
+if (process.env.NEXT_PUBLIC_TTS_PROVIDERS) {
+  const order = process.env.NEXT_PUBLIC_TTS_PROVIDERS.split(',').map(name => name.trim());
+  if (order.includes(mmsProvider.name)) {
+    registerTtsProvider(mmsProvider);
+  }
+  setTtsProviderOrder(order);
+}
+
+// Pending syntheses, so a prefetch and a playback of the same text share one request
+const inFlightSyntheses = new Map<string, Promise<ArrayBuffer | null>>();
+
 /**
- * Retry mechanism for text-to-speech with fallback to Web Speech API
+ * Synthesizes text with a provider, serving audio-returning providers from the audio cache
  * 
- * @param text - The text to convert to speech
- * @param maxRetries - Maximum number of retries for Hugging Face API
- * @returns Promise that resolves when audio playback is complete
+ * @param provider - The provider to use
+ * @param text - The text to synthesize
+ * @param options - Provider options
+ * @returns Promise with audio data, or null when the provider spoke the text itself
  */
-export async function speakWithFallback(text: string, maxRetries = 2): Promise<void> {
-  let lastError;
+async function synthesizeCached(provider: TtsProvider, text: string, options?: TtsOptions): Promise<ArrayBuffer | null> {
+  // A voice chosen for another provider means this one uses its default voice
+  if (options?.voiceProvider && options.voiceProvider !== provider.name) {
+    options = { ...options, voice: undefined };
+  }
   
-  // Try Qwen2-Audio API with retries
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`Qwen2-Audio attempt ${attempt} of ${maxRetries}`);
-      const audioData = await textToSpeech(text);
-      return await playAudio(audioData);
-    } catch (error) {
-      console.error(`Qwen2-Audio attempt ${attempt} failed:`, error);
-      lastError = error;
-      
-      if (attempt < maxRetries) {
-        // Wait before retrying (exponential backoff)
-        const delay = 1000 * Math.pow(2, attempt - 1);
-        console.log(`Waiting ${delay}ms before retry...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
+  if (!provider.capabilities.returnsAudio) {
+    return provider.synthesize(text, options);
+  }
+  
+  const key = audioCacheKey(provider.name, options, text);
+  const cached = await getCachedAudio(key);
+  if (cached) {
+    console.log(`Audio cache hit for ${provider.name}:`, text);
+    return cached;
+  }
+  
+  let pending = inFlightSyntheses.get(key);
+  if (!pending) {
+    pending = provider.synthesize(text, options).then(async audioData => {
+      if (audioData) {
+        await putCachedAudio(key, audioData);
+      }
+      return audioData;
+    }).finally(() => {
+      inFlightSyntheses.delete(key);
+    });
+    inFlightSyntheses.set(key, pending);
+  }
+  
+  // The request may be shared, so a caller that is cancelled stops waiting for it
+  // playAudio detaches the buffer it decodes, so every caller gets its own copy
+  const audioData = await untilAborted(pending, options?.signal);
+  return audioData ? audioData.slice(0) : null;
+}
+
+/**
+ * Synthesizes and caches the given utterances without playing them, so later
+ * calls to speakWithFallback can play them immediately. Each text is fetched
+ * from the first audio-returning provider that succeeds; failures are ignored.
+ * 
+ * @param texts - The texts that will be spoken
+ * @param options - Voice and locale the texts will be spoken with
+ * @returns Promise that resolves when prefetching is finished
+ */
+export async function prefetchSpeech(texts: string[], options?: TtsOptions): Promise<void> {
+  const providers = getTtsProviders().filter(provider => provider.capabilities.returnsAudio);
+  
+  for (const text of texts) {
+    for (const provider of providers) {
+      try {
+        await synthesizeCached(provider, text, options);
+        break;
+      } catch (error) {
+        console.warn(`Prefetch with ${provider.name} failed:`, error);
       }
     }
   }
+}
+
+/**
+ * Speaks text with the registered TTS providers, in priority order; the
+ * provider of a chosen voice goes first. Network providers are retried with
+ * exponential backoff before moving on.
+ * 
+ * @param text - The text to convert to speech
+ * @param options - Voice, locale, rate, pitch and volume to speak with, and a signal that cancels the speech
+ * @param maxRetries - Maximum number of attempts per network provider
+ * @returns Promise that resolves when audio playback is complete, or rejects with an AbortError when cancelled
+ */
+export async function speakWithFallback(text: string, options?: TtsOptions, maxRetries = 2): Promise<void> {
+  let lastError;
+  const providers = getTtsProviders();
+  if (options?.voiceProvider) {
+    providers.sort((a, b) => Number(b.name === options.voiceProvider) - Number(a.name === options.voiceProvider));
+  }
   
-  // If all Qwen2-Audio attempts failed, try Web Speech API
-  console.log('All Qwen2-Audio attempts failed, trying Web Speech API fallback');
-  try {
-    return await webSpeechFallback(text);
-  } catch (fallbackError) {
-    console.error('Web Speech API fallback also failed:', fallbackError);
+  for (const provider of providers) {
+    const attempts = provider.capabilities.requiresNetwork ? maxRetries : 1;
     
-    // If both methods fail, throw the original error
-    throw lastError || fallbackError;
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        console.log(`${provider.name} attempt ${attempt} of ${attempts}`);
+        const audioData = await synthesizeCached(provider, text, options);
+        if (audioData) {
+          await playAudio(audioData, options);
+        }
+        return;
+      } catch (error) {
+        // Cancelled speech is not retried; a shared request cancelled by another caller is
+        if (options?.signal?.aborted) throw abortError();
+        console.error(`${provider.name} attempt ${attempt} failed:`, error);
+        lastError = error;
+        
+        if (attempt < attempts) {
+          // Wait before retrying (exponential backoff)
+          const backoffMs = 1000 * Math.pow(2, attempt - 1);
+          console.log(`Waiting ${backoffMs}ms before retry...`);
+          await delay(backoffMs, options?.signal);
+        }
+      }
+    }
+    
+    console.log(`All ${provider.name} attempts failed, trying next provider`);
   }
+  
+  throw lastError || new Error('No text-to-speech provider is registered');
 }
@@ -0,0 +1,49 @@
+/**
+ * Small promise wrappers around the IndexedDB API
+ */
+
+/**
+ * Returns true when IndexedDB can be used in the current environment
+ */
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== 'undefined' && !!window.indexedDB;
+}
+
+/**
+ * Opens (and if needed creates or upgrades) a database
+ *
+ * @param name - Database name
+ * @param version - Schema version
+ * @param upgrade - Called when the database is created or its version increases
+ * @returns Promise with the open database
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!isIndexedDbAvailable()) {
+      reject(new Error('IndexedDB is not supported in this browser'));
+      return;
+    }
+
+    const request = window.indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wraps an IDBRequest in a promise
+ *
+ * @param request - The request to wait for
+ * @returns Promise with the request result
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
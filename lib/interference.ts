@@ -0,0 +1,122 @@
+/**
+ * Interference tasks that fill the delay before recall: counting backward
+ * from 20, serial sevens from 100 and spelling a word backward.
+ *
+ * Counting and spelling are scored as the longest run of expected items said
+ * in order, so a skipped or repeated item costs one point. Each serial-seven
+ * answer is scored against the answer before it, as in the MMSE, so one slip
+ * does not fail the rest.
+ */
+
+import { NumberLexicon, parseSpokenNumbers } from '@/lib/spokenNumbers';
+import { tokenize } from '@/lib/wordMatching';
+
+export type InterferenceTask = 'countBackward' | 'serialSevens' | 'spellBackward';
+
+export const INTERFERENCE_TASKS: InterferenceTask[] = ['countBackward', 'serialSevens', 'spellBackward'];
+
+export const COUNT_BACKWARD_FROM = 20;
+export const SERIAL_SEVENS_FROM = 100;
+export const SERIAL_SEVENS_STEPS = 5;
+
+export interface InterferenceVocabulary {
+  // Word spelled backward, e.g. 'WORLD'
+  spellWord: string;
+  // Spoken letter names, e.g. 'double u': 'w'
+  letterNames: Record<string, string>;
+  numbers: NumberLexicon;
+}
+
+export interface InterferenceScore {
+  task: InterferenceTask;
+  transcript: string;
+  expected: string[];
+  // Numbers or letters understood from the answer
+  given: string[];
+  correct: number;
+  maxScore: number;
+}
+
+// Length of the longest common subsequence
+function longestCommonRun(given: string[], expected: string[]): number {
+  let previous = new Array<number>(expected.length + 1).fill(0);
+  for (const item of given) {
+    const current = [0];
+    for (let j = 1; j <= expected.length; j++) {
+      current[j] = item === expected[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[expected.length];
+}
+
+/**
+ * Reads spelled letters from a transcript. Recognizers return spelling as
+ * single letters ("d l r o w"), letter names ("dee el") or run together
+ * ("dlrow"); a longer word counts only when all its letters are in the target.
+ *
+ * @param transcript - Recognized speech
+ * @param word - The word being spelled
+ * @param letterNames - Spoken letter names of the language
+ * @returns The letters, lowercase
+ */
+export function parseSpelledLetters(transcript: string, word: string, letterNames: Record<string, string>): string[] {
+  let text = ` ${tokenize(transcript).join(' ')} `;
+  // Longest names first, so "double u" is read before "u"
+  for (const name of Object.keys(letterNames).sort((a, b) => b.length - a.length)) {
+    text = text.split(` ${name} `).join(` ${letterNames[name]} `);
+  }
+
+  const targetLetters = new Set(word.toLowerCase());
+  return tokenize(text).flatMap(token => {
+    if (token.length === 1) return [token];
+    const letters = [...token];
+    return letters.every(letter => targetLetters.has(letter)) ? letters : [];
+  });
+}
+
+/**
+ * Scores the answer to an interference task
+ *
+ * @param task - The task that was given
+ * @param transcript - The spoken answer
+ * @param vocabulary - Spelling word, letter names and number words of the session language
+ * @returns The task score
+ */
+export function scoreInterference(
+  task: InterferenceTask,
+  transcript: string,
+  vocabulary: InterferenceVocabulary
+): InterferenceScore {
+  // Numbers said in a row are a sequence here, never a year ("twenty nineteen")
+  const numberLexicon = { ...vocabulary.numbers, pairedYears: false };
+
+  switch (task) {
+    case 'countBackward': {
+      const expected = Array.from({ length: COUNT_BACKWARD_FROM }, (_, index) => String(COUNT_BACKWARD_FROM - index));
+      const given = parseSpokenNumbers(transcript, numberLexicon).map(String);
+      return { task, transcript, expected, given, correct: longestCommonRun(given, expected), maxScore: expected.length };
+    }
+
+    case 'serialSevens': {
+      const expected = Array.from({ length: SERIAL_SEVENS_STEPS }, (_, index) => String(SERIAL_SEVENS_FROM - 7 * (index + 1)));
+      const numbers = parseSpokenNumbers(transcript, numberLexicon);
+      // Repeating the starting number is not an answer; recognizers may join it
+      // to the first answer ("one hundred ninety-three")
+      if (numbers[0] > SERIAL_SEVENS_FROM && numbers[0] < 2 * SERIAL_SEVENS_FROM) {
+        numbers[0] -= SERIAL_SEVENS_FROM;
+      } else if (numbers[0] === SERIAL_SEVENS_FROM) {
+        numbers.shift();
+      }
+      const answers = numbers.slice(0, SERIAL_SEVENS_STEPS);
+      const correct = answers.filter((answer, index) => answer === (index === 0 ? SERIAL_SEVENS_FROM : answers[index - 1]) - 7).length;
+      return { task, transcript, expected, given: answers.map(String), correct, maxScore: SERIAL_SEVENS_STEPS };
+    }
+
+    case 'spellBackward': {
+      const expected = [...vocabulary.spellWord.toLowerCase()].reverse();
+      const given = parseSpelledLetters(transcript, vocabulary.spellWord, vocabulary.letterNames);
+      return { task, transcript, expected, given, correct: longestCommonRun(given, expected), maxScore: expected.length };
+    }
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Word lists for the verbal fluency task, per locale
+ */
+
+import { LocaleCode, DEFAULT_LOCALE, isLocaleCode } from '@/lib/locales';
+import en from './en.json';
+import nl from './nl.json';
+import de from './de.json';
+import fr from './fr.json';
+
+export interface Lexicon {
+  // Articles, conjunctions and hesitations that are neither valid words nor intrusions
+  fillerWords: string[];
+  // Accepted words by fluency category, e.g. 'animals'
+  categories: Record<string, string[]>;
+}
+
+export const lexicons: Record<LocaleCode, Lexicon> = { en, nl, de, fr };
+
+/**
+ * Returns the lexicon for a locale code, falling back to the default locale
+ *
+ * @param code - Locale code
+ * @returns The lexicon
+ */
+export function getLexicon(code: string | undefined): Lexicon {
+  return isLocaleCode(code) ? lexicons[code] : lexicons[DEFAULT_LOCALE];
+}
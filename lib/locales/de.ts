@@ -0,0 +1,319 @@
+import { LocaleBundle } from './types';
+
+const de: LocaleBundle = {
+  code: 'de',
+  name: 'Deutsch',
+  speechLang: 'de-DE',
+  wordLists: [
+    ['Banane', 'Sonnenaufgang', 'Stuhl'],
+    ['Anführer', 'Jahreszeit', 'Tisch'],
+    ['Dorf', 'Küche', 'Baby'],
+    ['Fluss', 'Nation', 'Finger'],
+    ['Kapitän', 'Garten', 'Bild'],
+    ['Tochter', 'Himmel', 'Berg'],
+  ],
+  misWordLists: [
+    [
+      { word: 'Dame', category: 'ein Spiel' },
+      { word: 'Untertasse', category: 'Geschirr' },
+      { word: 'Telegramm', category: 'eine Nachricht' },
+      { word: 'Rotes Kreuz', category: 'eine Organisation' },
+    ],
+    [
+      { word: 'Banane', category: 'eine Frucht' },
+      { word: 'Hammer', category: 'ein Werkzeug' },
+      { word: 'Geige', category: 'ein Musikinstrument' },
+      { word: 'Tulpe', category: 'eine Blume' },
+    ],
+  ],
+  prompts: {
+    introduction: 'Ich werde Ihnen drei Wörter sagen. Bitte hören Sie genau zu und merken Sie sich diese. Später werde ich Sie bitten, die Wörter zu wiederholen.',
+    clockDrawing: 'Bitte zeichnen Sie jetzt eine Uhr. Tragen Sie alle Zahlen ein und stellen Sie die Zeiger auf zehn nach elf. Tippen Sie auf Fertig, wenn Sie fertig sind.',
+    recall: 'Bitte wiederholen Sie die drei Wörter, die ich vorhin gesagt habe.',
+    recallReprompt: 'Ich habe keine Antwort gehört. Bitte nennen Sie die Wörter, an die Sie sich erinnern.',
+    misIntroduction: 'Ich sage Ihnen vier Wörter. Bitte hören Sie gut zu und merken Sie sich diese. Ich frage Sie später danach.',
+    misRecall: 'Bitte nennen Sie die vier Wörter, die ich vorhin gesagt habe.',
+    categoryCue: 'Eines der Wörter war {category}. Welches Wort war es?',
+    fluency: 'Nennen Sie jetzt so viele Tiere wie möglich. Sie haben eine Minute Zeit. Bitte beginnen Sie.',
+    orientationIntroduction: 'Ich stelle Ihnen jetzt einige Fragen zum Datum und dazu, wo wir sind.',
+    orientationYear: 'Welches Jahr haben wir?',
+    orientationSeason: 'Welche Jahreszeit haben wir?',
+    orientationDate: 'Den Wievielten haben wir heute?',
+    orientationDayOfWeek: 'Welcher Wochentag ist heute?',
+    orientationMonth: 'Welchen Monat haben wir?',
+    orientationCity: 'In welcher Stadt sind wir?',
+    orientationCountry: 'In welchem Land sind wir?',
+    orientationReprompt: 'Ich habe keine Antwort gehört. Bitte beantworten Sie die Frage.',
+    countBackward: 'Bitte zählen Sie von zwanzig rückwärts bis eins.',
+    serialSevens: 'Bitte beginnen Sie bei hundert und ziehen Sie immer wieder sieben ab. Sagen Sie jedes Ergebnis laut.',
+    spellBackward: 'Bitte buchstabieren Sie das Wort {word} rückwärts.',
+    interferenceReprompt: 'Ich habe keine Antwort gehört. Bitte versuchen Sie die Aufgabe.',
+    digitSpanForwardIntroduction: 'Ich nenne Ihnen gleich einige Zahlen. Wenn ich fertig bin, wiederholen Sie sie bitte in derselben Reihenfolge.',
+    digitSpanBackwardIntroduction: 'Jetzt nenne ich Ihnen wieder einige Zahlen. Wenn ich fertig bin, wiederholen Sie sie bitte in umgekehrter Reihenfolge. Wenn ich sieben eins sage, sagen Sie eins sieben.',
+    digitSpanReprompt: 'Ich habe keine Antwort gehört. Bitte nennen Sie die Zahlen, an die Sie sich erinnern.',
+    calibrationSample: 'So klingen die Fragen des Tests.',
+  },
+  interpretation: {
+    negativeScreen: 'Ein Ergebnis von 3 bis 5 ist ein unauffälliges Screening. Eine Demenz ist weniger wahrscheinlich, eine gewisse kognitive Beeinträchtigung ist jedoch nicht ausgeschlossen.',
+    positiveScreen: 'Ein Ergebnis von 0 bis 2 ist ein auffälliges Screening. Eine weitere Abklärung kognitiver Beeinträchtigungen wird empfohlen.',
+  },
+  misInterpretation: {
+    negativeScreen: 'Ein Ergebnis von 5 bis 8 ist ein unauffälliges Screening. Leichte Gedächtnisprobleme sind damit nicht ausgeschlossen.',
+    positiveScreen: 'Ein Ergebnis von 0 bis 4 ist ein auffälliges Screening. Eine weitere Abklärung des Gedächtnisses wird empfohlen.',
+  },
+  clockRubric: {
+    normal: [
+      'Alle Zahlen 1-12 sind vorhanden, in der richtigen Reihenfolge und Position',
+      'Die Zeiger zeigen auf die 11 und die 2 (zehn nach elf)',
+      'Die Zeigerlänge wird nicht bewertet',
+    ],
+    abnormal: [
+      'Zahlen fehlen, sind doppelt, in falscher Reihenfolge oder außerhalb der Uhr',
+      'Zeiger fehlen, zeigen auf falsche Zahlen, oder die Zeichnung wurde verweigert',
+    ],
+  },
+  giveUpPhrases: [
+    'ich weiß nicht',
+    'ich weiß es nicht',
+    'weiß ich nicht',
+    'weiß nicht',
+    'keine ahnung',
+    'ich habe es vergessen',
+    'vergessen',
+    'ich erinnere mich nicht',
+    'ich kann mich nicht erinnern',
+    'ich gebe auf',
+  ],
+  wordListLearning: {
+    words: ['Butter', 'Arm', 'Strand', 'Brief', 'Königin', 'Hütte', 'Stange', 'Karte', 'Gras', 'Motor'],
+    distractors: ['Kirche', 'Kaffee', 'Dollar', 'Fünfzig', 'Hotel', 'Berg', 'Pantoffel', 'Dorf', 'Faden', 'Armee'],
+    yesWords: ['ja', 'jawohl', 'genau', 'richtig'],
+    noWords: ['nein', 'nee', 'nicht'],
+    prompts: {
+      introduction: 'Ich lese Ihnen eine Liste mit zehn Wörtern vor. Bitte hören Sie genau zu. Nennen Sie danach alle Wörter, an die Sie sich erinnern, in beliebiger Reihenfolge.',
+      nextTrial: 'Ich lese Ihnen dieselbe Liste noch einmal in anderer Reihenfolge vor. Nennen Sie danach alle Wörter, an die Sie sich erinnern, auch die, die Sie schon genannt haben.',
+      immediateRecall: 'Bitte nennen Sie jetzt alle Wörter, an die Sie sich erinnern.',
+      delayedRecall: 'Vorhin habe ich Ihnen dreimal eine Liste mit zehn Wörtern vorgelesen. Bitte nennen Sie alle Wörter dieser Liste, an die Sie sich noch erinnern.',
+      recognitionIntro: 'Ich nenne Ihnen jetzt einzeln einige Wörter. Sagen Sie bei jedem Wort ja, wenn es auf der Liste stand, oder nein, wenn nicht.',
+    },
+  },
+  orientation: {
+    months: ['Januar', 'Februar', 'März', 'April', 'Mai', 'Juni', 'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember'],
+    weekdays: ['Sonntag', 'Montag', 'Dienstag', 'Mittwoch', 'Donnerstag', 'Freitag', 'Samstag'],
+    seasons: {
+      spring: ['Frühling', 'Frühjahr'],
+      summer: ['Sommer'],
+      autumn: ['Herbst'],
+      winter: ['Winter'],
+    },
+  },
+  interference: {
+    spellWord: 'RADIO',
+    letterNames: { er: 'r', ah: 'a', de: 'd', dee: 'd', ih: 'i', ie: 'i', oh: 'o' },
+  },
+  numbers: {
+    words: {
+      null: 0, ein: 1, eins: 1, eine: 1, zwei: 2, drei: 3, vier: 4, fünf: 5, sechs: 6, sieben: 7, acht: 8,
+      neun: 9, zehn: 10, elf: 11, zwölf: 12, dreizehn: 13, vierzehn: 14, fünfzehn: 15, sechzehn: 16,
+      siebzehn: 17, achtzehn: 18, neunzehn: 19, zwanzig: 20, dreißig: 30, vierzig: 40, fünfzig: 50,
+      sechzig: 60, siebzig: 70, achtzig: 80, neunzig: 90, hundert: 100, tausend: 1000,
+    },
+    connectors: ['und'],
+    ordinalSuffixes: ['sten', 'ste', 'ster', 'stes', 'ten', 'te', 'ter', 'tes'],
+    ordinalStems: { er: 1, drit: 3, sieb: 7, ach: 8 },
+    pairedYears: false,
+  },
+  ui: {
+    appTitle: 'Alzheimer-Sprachtest',
+    welcomeTitle: 'Willkommen beim Alzheimer-Sprachtest',
+    welcomeIntro: 'Diese Anwendung führt einen einfachen Gedächtnistest per Sprache durch. Sie hören drei Wörter, zeichnen eine Uhr und werden dann gebeten, die Wörter zu wiederholen.',
+    welcomeMiniCog: 'Dieser Test folgt dem Mini-Cog, der Wortgedächtnis mit einer Uhrzeichnung kombiniert und als kurzes Screening auf kognitive Beeinträchtigungen dient.',
+    disclaimer: 'Hinweis: Dies ist kein Diagnoseinstrument. Wenn Sie sich Sorgen um Ihr Gedächtnis oder Ihre geistige Leistungsfähigkeit machen, wenden Sie sich bitte an medizinisches Fachpersonal.',
+    footer: 'Diese Anwendung verwendet das Sesame-CSM-Sprachmodell über die Hugging Face Inference API.',
+    modelCredit: 'Diese Anwendung verwendet das Qwen2-Audio-Sprachmodell über die Hugging Face Inference API.',
+    languageLabel: 'Sprache',
+    testTitle: 'Alzheimer-Sprachtest',
+    instructions: 'Dieser Test prüft Ihr Gedächtnis per Sprache. Sie hören drei Wörter, zeichnen eine Uhr, lösen eine kurze Zähl- oder Buchstabieraufgabe und werden dann gebeten, die Wörter zu wiederholen.',
+    startTest: 'Test starten',
+    errorDuringTest: 'Fehler während des Tests',
+    listenCarefully: 'Bitte hören Sie sich diese Wörter genau an:',
+    wordProgress: (current, total) => `Wort ${current} von ${total}`,
+    waitMoment: 'Bitte warten Sie einen Moment...',
+    repeatWords: 'Bitte wiederholen Sie die drei Wörter, die Sie vorhin gehört haben:',
+    listening: 'Höre zu...',
+    resultsTitle: 'Testergebnisse',
+    wordsToRemember: 'Wörter, die Sie sich merken sollten',
+    yourResponse: 'Ihre Antwort',
+    recordedResponse: 'Aufgezeichnete Antwort',
+    recalledAs: 'erinnert als',
+    soundsLike: 'klingt wie',
+    missed: 'nicht genannt',
+    responseLatency: 'Antwortlatenz',
+    noSpeechDetected: 'keine Sprache erkannt',
+    speakingTime: 'Sprechzeit',
+    pauses: 'Pausen',
+    wordsRecalled: 'Richtig erinnerte Wörter',
+    clockDrawing: 'Uhrzeichnung',
+    clockNormal: 'Normal',
+    clockAbnormal: 'Auffällig',
+    points: 'Punkte',
+    miniCogTotal: 'Mini-Cog Gesamt',
+    outOf: 'von',
+    takeTestAgain: 'Test wiederholen',
+    clockInstructions: 'Zeichnen Sie eine Uhr mit allen Zahlen und stellen Sie die Zeiger auf zehn nach elf.',
+    clockClear: 'Löschen',
+    clockDone: 'Fertig',
+    clockScorePrompt: 'Fachperson: Bitte bewerten Sie die Uhrzeichnung.',
+    clockDrawingAlt: 'Uhrzeichnung des Patienten',
+    testModeLabel: 'Test',
+    modeMiniCog: 'Mini-Cog (3 Wörter und Uhr)',
+    modeWordListLearning: 'Wortliste lernen (10 Wörter)',
+    wordListTitle: 'Wortlisten-Lerntest',
+    wordListInstructions: 'Sie hören dreimal eine Liste mit zehn Wörtern und nennen nach jedem Durchgang die Wörter, an die Sie sich erinnern. Nach einer kurzen Zeichenaufgabe werden Sie erneut nach den Wörtern gefragt und zum Schluss, ob bestimmte Wörter auf der Liste standen.',
+    trialProgress: (trial, total) => `Durchgang ${trial} von ${total}`,
+    recallAllWords: 'Bitte nennen Sie alle Wörter, an die Sie sich erinnern:',
+    recognitionQuestion: 'Stand dieses Wort auf der Liste? Sagen Sie ja oder nein.',
+    trialScores: 'Erinnerte Wörter pro Durchgang',
+    trialTotal: 'Summe der Lerndurchgänge',
+    learningSlope: 'Lernsteigung',
+    perTrial: 'Wörter pro Durchgang',
+    delayedRecall: 'Verzögerter Abruf',
+    savings: 'Ersparnis',
+    recognition: 'Wiedererkennen',
+    hits: 'Listenwörter erkannt',
+    correctRejections: 'neue Wörter abgelehnt',
+    discriminability: 'Diskriminabilität',
+    notUnderstood: 'nicht verstanden',
+    viewHistory: 'Frühere Ergebnisse ansehen',
+    historyTitle: 'Ergebnisverlauf',
+    backToTest: 'Zurück zum Test',
+    noHistory: 'Noch keine abgeschlossenen Tests.',
+    deleteEntry: 'Löschen',
+    clearAll: 'Alle löschen',
+    confirmClearAll: 'Alle gespeicherten Ergebnisse löschen? Dies kann nicht rückgängig gemacht werden.',
+    scoreTrend: 'Ergebnis im Zeitverlauf',
+    completedAt: 'Abgeschlossen am',
+    historyUnavailable: 'Gespeicherte Ergebnisse sind in diesem Browser nicht verfügbar.',
+    deleteFailed: 'Die gespeicherten Ergebnisse konnten nicht gelöscht werden. Bitte versuchen Sie es erneut.',
+    downloadFhir: 'FHIR-Datensatz herunterladen',
+    downloadReport: 'Bericht herunterladen',
+    reportTitle: 'Bericht für Behandelnde',
+    patientName: 'Name des Patienten',
+    patientId: 'Patienten-ID',
+    dateOfBirth: 'Geburtsdatum',
+    paperSize: 'Papierformat',
+    reportDate: 'Datum und Uhrzeit',
+    wordMatches: 'Worterkennung',
+    totalScore: 'Gesamtpunktzahl',
+    interpretation: 'Interpretation',
+    noInterpretation: 'Diese Anwendung legt für diesen Test keinen Grenzwert fest; vergleichen Sie die Werte mit alters- und bildungsbereinigten Normen.',
+    doneSpeaking: 'Ich bin fertig',
+    recallAttempts: 'Versuche',
+    outcomeResponse: 'beantwortet',
+    outcomeNoSpeech: 'keine Antwort gehört',
+    outcomeGaveUp: 'aufgegeben',
+    outcomeError: 'Erkennungsfehler',
+    modeMis: 'Memory Impairment Screen (4 Wörter mit Kategoriehinweisen)',
+    cueHint: 'Hinweis',
+    freeRecall: 'Freier Abruf',
+    cuedRecall: 'Nach Hinweis erinnert',
+    misTotal: 'MIS-Gesamtwert',
+    misInstructions: 'Dieser Test prüft Ihr Gedächtnis per Sprache. Sie hören vier Wörter, lösen eine kurze Zähl- oder Buchstabieraufgabe und werden dann gebeten, sie zu wiederholen. Für vergessene Wörter erhalten Sie einen Hinweis.',
+    animalFluency: 'In einer Minute genannte Tiere',
+    nameAnimals: 'Nennen Sie so viele Tiere wie möglich',
+    secondsLeft: seconds => `noch ${seconds} s`,
+    fluencyPerBin: 'Je 15 Sekunden',
+    perseverations: 'Wiederholt',
+    intrusions: 'Keine Tiere',
+    modeOrientation: 'Orientierungsfragen (Datum und Ort)',
+    orientationPrefix: 'Mit Orientierungsfragen beginnen',
+    orientationInstructions: 'Dieser Test stellt Ihnen einige gesprochene Fragen zum Datum und zu Ihrem Aufenthaltsort. Beantworten Sie jede Frage laut.',
+    answerQuestion: 'Bitte beantworten Sie die Frage laut.',
+    orientation: 'Orientierung',
+    orientationTotal: 'Orientierung gesamt',
+    expectedAnswer: 'Erwartet',
+    orientationItems: {
+      year: 'Jahr',
+      season: 'Jahreszeit',
+      date: 'Datum',
+      dayOfWeek: 'Wochentag',
+      month: 'Monat',
+      city: 'Stadt',
+      country: 'Land',
+    },
+    interferenceTask: 'Aufgabe vor dem Abruf',
+    interferenceTasks: {
+      countBackward: 'Von 20 rückwärts zählen',
+      serialSevens: 'Von 100 fortlaufend sieben abziehen',
+      spellBackward: 'Ein Wort rückwärts buchstabieren',
+    },
+    heardAnswer: 'Gehört',
+    interferenceCorrect: 'Richtige Schritte',
+    modeDigitSpan: 'Zahlenspanne (vorwärts und rückwärts)',
+    digitSpanInstructions: 'Dieser Test prüft Ihre Aufmerksamkeit per Sprache. Sie hören Zahlenreihen, eine Zahl pro Sekunde. Wiederholen Sie jede Reihe laut, zuerst in derselben und dann in umgekehrter Reihenfolge.',
+    listenToNumbers: 'Bitte hören Sie sich die Zahlen an...',
+    repeatForward: 'Wiederholen Sie die Zahlen in derselben Reihenfolge.',
+    repeatBackward: 'Wiederholen Sie die Zahlen in umgekehrter Reihenfolge.',
+    digitSpanForward: 'Zahlen vorwärts',
+    digitSpanBackward: 'Zahlen rückwärts',
+    longestSpan: 'Längste Spanne',
+    digitSpanTotal: 'Zahlenspanne gesamt',
+    answerModality: 'Antworten',
+    answerModalities: {
+      speech: 'Gesprochen',
+      typed: 'Getippt',
+    },
+    typeAnswers: 'Antworten tippen statt sprechen',
+    typedAnswersFallback: 'Spracherkennung ist in diesem Browser nicht verfügbar, daher werden die Antworten getippt.',
+    typeAnswer: 'Tippen Sie Ihre Antwort und drücken Sie die Eingabetaste',
+    typeAnimals: 'Tippen Sie jedes Tier und drücken Sie die Eingabetaste',
+    submitAnswer: 'Senden',
+    spokenCaption: 'Gesprochen',
+    clockOnPaper: 'Auf Papier gezeichnet',
+    clockDrawnOnPaper: 'Die Uhr wurde auf Papier gezeichnet.',
+    calibrationTitle: 'Audiotest',
+    calibrationIntro: 'Prüfen Sie vor dem Test, ob Sie die Fragen hören und ob das Mikrofon Ihre Stimme aufnimmt.',
+    speakerCheck: 'Lautsprecher',
+    volume: 'Lautstärke',
+    playTone: 'Ton abspielen',
+    playSample: 'Sprachbeispiel abspielen',
+    heardClearly: 'Ich habe beides deutlich gehört',
+    notHeard: 'Ich habe nichts gehört',
+    notHeardHint: 'Erhöhen Sie die Lautstärke oder heben Sie die Stummschaltung auf und spielen Sie beides erneut ab.',
+    microphoneCheck: 'Mikrofon',
+    microphoneLevel: 'Mikrofonpegel',
+    microphoneUnavailable: 'Das Mikrofon konnte nicht geöffnet werden. Erlauben Sie den Mikrofonzugriff im Browser und versuchen Sie es erneut.',
+    sayTestPhrase: 'Drücken Sie die Taste und sagen Sie:',
+    calibrationPhrase: 'Heute scheint die Sonne',
+    startPhraseCheck: 'Satz sprechen',
+    phraseRecognized: 'Der Satz wurde erkannt.',
+    phraseNotRecognized: 'Der Satz wurde nicht erkannt. Sprechen Sie näher am Mikrofon und versuchen Sie es erneut.',
+    noiseCheck: 'Hintergrundgeräusche',
+    stayQuiet: 'Seien Sie einige Sekunden still, während die Hintergrundgeräusche gemessen werden.',
+    measureNoise: 'Hintergrundgeräusche messen',
+    noiseLevel: 'Geräuschpegel',
+    noiseOk: 'Der Raum ist ruhig genug.',
+    noiseTooLoud: 'Der Raum ist zu laut für eine zuverlässige Spracherkennung. Verringern Sie die Geräusche oder gehen Sie an einen ruhigeren Ort und messen Sie erneut.',
+    checkPassed: 'Bestanden',
+    checksSkipped: 'Übersprungen',
+    continueToTest: 'Weiter zum Test',
+    skipChecks: 'Ohne bestandene Prüfungen fortfahren',
+    speechSettings: 'Spracheinstellungen',
+    speechSettingsHint: 'Langsamere, tiefere und lautere Sprache kann älteren und schwerhörigen Menschen helfen. Die Einstellungen werden für das gewählte Profil gespeichert.',
+    profile: 'Profil',
+    defaultProfile: 'Standard',
+    newProfileName: 'Neues Profil',
+    addProfile: 'Profil hinzufügen',
+    speechRate: 'Sprechtempo',
+    speechPitch: 'Tonhöhe',
+    voice: 'Stimme',
+    defaultVoice: 'Standardstimme',
+    deviceVoices: 'Stimmen dieses Geräts',
+    previewSpeech: 'Beispiel anhören',
+    stopTest: 'Test abbrechen',
+    fluencyOption: 'Mit dem Tiere-Nennen abschließen (eine Minute)',
+    fluencyInstructions: 'Zum Schluss nennen Sie in einer Minute so viele Tiere wie möglich.',
+  },
+};
+
+export default de;
@@ -0,0 +1,323 @@
+import { LocaleBundle } from './types';
+
+const en: LocaleBundle = {
+  code: 'en',
+  name: 'English',
+  speechLang: 'en-US',
+  wordLists: [
+    ['Apple', 'Watch', 'Penny'],
+    ['Banana', 'Sunset', 'Chair'],
+    ['River', 'Nation', 'Finger'],
+    ['Leader', 'Season', 'Table'],
+    ['Village', 'Kitchen', 'Baby'],
+    ['Mountain', 'Glasses', 'Paper'],
+  ],
+  misWordLists: [
+    [
+      { word: 'Checkers', category: 'a game' },
+      { word: 'Saucer', category: 'a dish' },
+      { word: 'Telegram', category: 'a message' },
+      { word: 'Red Cross', category: 'an organization' },
+    ],
+    [
+      { word: 'Banana', category: 'a fruit' },
+      { word: 'Hammer', category: 'a tool' },
+      { word: 'Violin', category: 'a musical instrument' },
+      { word: 'Tulip', category: 'a flower' },
+    ],
+  ],
+  prompts: {
+    introduction: 'I will say three words. Please listen carefully and remember them. You will be asked to recall these words later.',
+    clockDrawing: 'Now, please draw a clock. Put in all the numbers, and set the hands to ten past eleven. Tap done when you are finished.',
+    recall: 'Please repeat the three words I said earlier.',
+    recallReprompt: 'I did not hear an answer. Please tell me the words you remember.',
+    misIntroduction: 'I will say four words. Please listen carefully and remember them. I will ask you for these words later.',
+    misRecall: 'Please tell me the four words I said earlier.',
+    categoryCue: 'One of the words was {category}. Which word was it?',
+    fluency: 'Now, name as many animals as you can. You have one minute. Please start now.',
+    orientationIntroduction: 'I will now ask you a few questions about the date and where we are.',
+    orientationYear: 'What year is it?',
+    orientationSeason: 'What season is it?',
+    orientationDate: 'What is the date today?',
+    orientationDayOfWeek: 'What day of the week is it?',
+    orientationMonth: 'What month is it?',
+    orientationCity: 'What city are we in?',
+    orientationCountry: 'What country are we in?',
+    orientationReprompt: 'I did not hear an answer. Please answer the question.',
+    countBackward: 'Please count backward from twenty to one.',
+    serialSevens: 'Please start at one hundred and keep taking away seven. Say each answer aloud.',
+    spellBackward: 'Please spell the word {word} backward.',
+    interferenceReprompt: 'I did not hear an answer. Please try the task.',
+    digitSpanForwardIntroduction: 'I will say some numbers. When I stop, please repeat them in the same order.',
+    digitSpanBackwardIntroduction: 'Now I will say some more numbers. When I stop, please repeat them in reverse order. If I say seven one, you say one seven.',
+    digitSpanReprompt: 'I did not hear an answer. Please say the numbers you remember.',
+    calibrationSample: 'This is how the questions of the test will sound.',
+  },
+  interpretation: {
+    negativeScreen: 'A score of 3 to 5 is a negative screen. It indicates a lower likelihood of dementia but does not rule out some degree of cognitive impairment.',
+    positiveScreen: 'A score of 0 to 2 is a positive screen. Further evaluation for cognitive impairment is recommended.',
+  },
+  misInterpretation: {
+    negativeScreen: 'A score of 5 to 8 is a negative screen. It does not rule out mild memory problems.',
+    positiveScreen: 'A score of 0 to 4 is a positive screen. Further evaluation of memory is recommended.',
+  },
+  clockRubric: {
+    normal: [
+      'All numbers 1-12 are present, in the correct order and position',
+      'Hands point to the 11 and the 2 (ten past eleven)',
+      'Hand length is not scored',
+    ],
+    abnormal: [
+      'Numbers missing, duplicated, out of order or placed outside the clock',
+      'Hands missing, pointing to the wrong numbers, or the drawing was refused',
+    ],
+  },
+  giveUpPhrases: [
+    "i don't know",
+    'i do not know',
+    "don't know",
+    'i forget',
+    'i forgot',
+    "i don't remember",
+    'i do not remember',
+    "i can't remember",
+    'i cannot remember',
+    'no idea',
+    'i have no idea',
+    'i give up',
+  ],
+  wordListLearning: {
+    words: ['Butter', 'Arm', 'Shore', 'Letter', 'Queen', 'Cabin', 'Pole', 'Ticket', 'Grass', 'Engine'],
+    distractors: ['Church', 'Coffee', 'Dollar', 'Fifty', 'Hotel', 'Mountain', 'Slipper', 'Village', 'String', 'Army'],
+    yesWords: ['yes', 'yeah', 'yep', 'correct'],
+    noWords: ['no', 'nope', 'not'],
+    prompts: {
+      introduction: 'I will read you a list of ten words. Please listen carefully. Afterwards, tell me all the words you can remember, in any order.',
+      nextTrial: 'I will read the same list again, in a different order. Afterwards, tell me all the words you can remember, including the ones you said before.',
+      immediateRecall: 'Now, please tell me all the words you remember.',
+      delayedRecall: 'Earlier I read you a list of ten words three times. Please tell me all the words from that list that you still remember.',
+      recognitionIntro: 'I will now say some words, one at a time. For each word, say yes if it was on the list, or no if it was not.',
+    },
+  },
+  orientation: {
+    months: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+    commonWordMonths: ['May'],
+    weekdays: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+    seasons: {
+      spring: ['spring'],
+      summer: ['summer'],
+      autumn: ['autumn', 'fall'],
+      winter: ['winter'],
+    },
+  },
+  interference: {
+    spellWord: 'WORLD',
+    letterNames: { dee: 'd', el: 'l', ell: 'l', are: 'r', ar: 'r', oh: 'o', 'double u': 'w', 'double you': 'w' },
+  },
+  numbers: {
+    words: {
+      zero: 0, oh: 0, o: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+      eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+      eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70,
+      eighty: 80, ninety: 90, hundred: 100, thousand: 1000, first: 1, second: 2, third: 3,
+    },
+    connectors: ['and'],
+    ordinalSuffixes: ['th'],
+    ordinalStems: { fif: 5, eigh: 8, nin: 9, twelf: 12, twentie: 20, thirtie: 30 },
+    pairedYears: true,
+    digitHomophones: { to: 2, too: 2, for: 4 },
+  },
+  ui: {
+    appTitle: "Voice Alzheimer's Test",
+    welcomeTitle: "Welcome to the Voice Alzheimer's Test",
+    welcomeIntro: 'This application administers a simple memory test using voice interaction. You will hear three words, draw a clock, and then be asked to recall the words.',
+    welcomeMiniCog: 'This test follows the Mini-Cog assessment, which combines word recall with a clock drawing and is used as a quick screening tool for cognitive impairment.',
+    disclaimer: 'Note: This is not a diagnostic tool. If you have concerns about memory or cognitive function, please consult with a healthcare professional.',
+    footer: 'This application uses the Sesame CSM voice model via Hugging Face Inference API.',
+    modelCredit: 'This application uses the Qwen2-Audio voice model via Hugging Face Inference API.',
+    languageLabel: 'Language',
+    testTitle: "Alzheimer's Voice Test",
+    instructions: 'This test will assess your memory using voice interaction. You will hear three words, draw a clock, do a short counting or spelling task, and then be asked to recall the words.',
+    startTest: 'Start Test',
+    errorDuringTest: 'Error during test',
+    listenCarefully: 'Please listen carefully to these words:',
+    wordProgress: (current, total) => `Word ${current} of ${total}`,
+    waitMoment: 'Please wait a moment...',
+    repeatWords: 'Please repeat the three words you heard earlier:',
+    listening: 'Listening...',
+    resultsTitle: 'Test Results',
+    wordsToRemember: 'Words you were asked to remember',
+    yourResponse: 'Your response',
+    recordedResponse: 'Recorded response',
+    recalledAs: 'recalled as',
+    soundsLike: 'sounds like',
+    missed: 'missed',
+    responseLatency: 'Response latency',
+    noSpeechDetected: 'no speech detected',
+    speakingTime: 'Speaking time',
+    pauses: 'Pauses',
+    wordsRecalled: 'Words correctly recalled',
+    clockDrawing: 'Clock drawing',
+    clockNormal: 'Normal',
+    clockAbnormal: 'Abnormal',
+    points: 'points',
+    miniCogTotal: 'Mini-Cog total',
+    outOf: 'out of',
+    takeTestAgain: 'Take Test Again',
+    clockInstructions: 'Draw a clock with all the numbers, and set the hands to ten past eleven.',
+    clockClear: 'Clear',
+    clockDone: 'Done',
+    clockScorePrompt: 'Clinician: please score the clock drawing.',
+    clockDrawingAlt: 'Patient clock drawing',
+    testModeLabel: 'Test',
+    modeMiniCog: 'Mini-Cog (3 words and clock)',
+    modeWordListLearning: 'Word list learning (10 words)',
+    wordListTitle: 'Word List Learning Test',
+    wordListInstructions: 'You will hear a list of ten words three times and repeat the words you remember after each reading. After a short drawing task you will be asked for the words again, and finally whether some words were on the list.',
+    trialProgress: (trial, total) => `Trial ${trial} of ${total}`,
+    recallAllWords: 'Please say all the words you remember:',
+    recognitionQuestion: 'Was this word on the list? Say yes or no.',
+    trialScores: 'Words recalled per trial',
+    trialTotal: 'Total over the learning trials',
+    learningSlope: 'Learning slope',
+    perTrial: 'words per trial',
+    delayedRecall: 'Delayed recall',
+    savings: 'Savings',
+    recognition: 'Recognition',
+    hits: 'list words recognized',
+    correctRejections: 'new words rejected',
+    discriminability: 'Discriminability',
+    notUnderstood: 'not understood',
+    viewHistory: 'View past results',
+    historyTitle: 'Result History',
+    backToTest: 'Back to the test',
+    noHistory: 'No completed tests yet.',
+    deleteEntry: 'Delete',
+    clearAll: 'Clear all',
+    confirmClearAll: 'Delete all saved results? This cannot be undone.',
+    scoreTrend: 'Score over time',
+    completedAt: 'Completed at',
+    historyUnavailable: 'Saved results are not available in this browser.',
+    deleteFailed: 'The saved results could not be deleted. Please try again.',
+    downloadFhir: 'Download FHIR record',
+    downloadReport: 'Download report',
+    reportTitle: 'Clinician report',
+    patientName: 'Patient name',
+    patientId: 'Patient ID',
+    dateOfBirth: 'Date of birth',
+    paperSize: 'Paper size',
+    reportDate: 'Date and time',
+    wordMatches: 'Word matches',
+    totalScore: 'Total score',
+    interpretation: 'Interpretation',
+    noInterpretation: 'No cutoff is defined for this test in this application; compare the scores with age- and education-adjusted norms.',
+    doneSpeaking: 'I am done',
+    recallAttempts: 'Attempts',
+    outcomeResponse: 'answered',
+    outcomeNoSpeech: 'no answer heard',
+    outcomeGaveUp: 'gave up',
+    outcomeError: 'recognition error',
+    modeMis: 'Memory Impairment Screen (4 words with category cues)',
+    cueHint: 'Hint',
+    freeRecall: 'Free recall',
+    cuedRecall: 'Recalled after a cue',
+    misTotal: 'MIS total',
+    misInstructions: 'This test will assess your memory using voice interaction. You will hear four words, do a short counting or spelling task, and then be asked to recall them. For words you miss, you will get a hint.',
+    animalFluency: 'Animals named in one minute',
+    nameAnimals: 'Name as many animals as you can',
+    secondsLeft: seconds => `${seconds} s left`,
+    fluencyPerBin: 'Per 15 seconds',
+    perseverations: 'Repeated',
+    intrusions: 'Not animals',
+    modeOrientation: 'Orientation questions (date and place)',
+    orientationPrefix: 'Start with orientation questions',
+    orientationInstructions: 'This test asks you a few spoken questions about the date and where you are. Answer each question aloud.',
+    answerQuestion: 'Please answer the question aloud.',
+    orientation: 'Orientation',
+    orientationTotal: 'Orientation total',
+    expectedAnswer: 'Expected',
+    orientationItems: {
+      year: 'Year',
+      season: 'Season',
+      date: 'Date',
+      dayOfWeek: 'Day of the week',
+      month: 'Month',
+      city: 'City',
+      country: 'Country',
+    },
+    interferenceTask: 'Task before recall',
+    interferenceTasks: {
+      countBackward: 'Count backward from 20',
+      serialSevens: 'Serial sevens from 100',
+      spellBackward: 'Spell a word backward',
+    },
+    heardAnswer: 'Heard',
+    interferenceCorrect: 'Correct steps',
+    modeDigitSpan: 'Digit span (numbers forward and backward)',
+    digitSpanInstructions: 'This test will assess your attention using voice interaction. You will hear series of numbers, one per second. Repeat each series aloud, first in the same order and then in reverse order.',
+    listenToNumbers: 'Please listen to the numbers...',
+    repeatForward: 'Repeat the numbers in the same order.',
+    repeatBackward: 'Repeat the numbers in reverse order.',
+    digitSpanForward: 'Digits forward',
+    digitSpanBackward: 'Digits backward',
+    longestSpan: 'Longest span',
+    digitSpanTotal: 'Digit span total',
+    answerModality: 'Answers',
+    answerModalities: {
+      speech: 'Spoken',
+      typed: 'Typed',
+    },
+    typeAnswers: 'Type the answers instead of speaking them',
+    typedAnswersFallback: 'Speech recognition is not available in this browser, so the answers are typed.',
+    typeAnswer: 'Type your answer and press Enter',
+    typeAnimals: 'Type each animal and press Enter',
+    submitAnswer: 'Submit',
+    spokenCaption: 'Spoken',
+    clockOnPaper: 'Drawn on paper',
+    clockDrawnOnPaper: 'The clock was drawn on paper.',
+    calibrationTitle: 'Audio check',
+    calibrationIntro: 'Before the test, check that you can hear the questions and that the microphone picks up your voice.',
+    speakerCheck: 'Speakers',
+    volume: 'Volume',
+    playTone: 'Play a tone',
+    playSample: 'Play a spoken sample',
+    heardClearly: 'I heard both clearly',
+    notHeard: "I didn't hear them",
+    notHeardHint: 'Turn up the volume or unmute the device, then play them again.',
+    microphoneCheck: 'Microphone',
+    microphoneLevel: 'Microphone level',
+    microphoneUnavailable: 'The microphone could not be opened. Allow microphone access in the browser and try again.',
+    sayTestPhrase: 'Press the button and say:',
+    calibrationPhrase: 'The sun is shining today',
+    startPhraseCheck: 'Say the phrase',
+    phraseRecognized: 'The phrase was recognized.',
+    phraseNotRecognized: 'The phrase was not recognized. Speak closer to the microphone and try again.',
+    noiseCheck: 'Background noise',
+    stayQuiet: 'Stay quiet for a few seconds while the background noise is measured.',
+    measureNoise: 'Measure background noise',
+    noiseLevel: 'Noise level',
+    noiseOk: 'The room is quiet enough.',
+    noiseTooLoud: 'The room is too noisy for reliable speech recognition. Reduce the noise or move somewhere quieter, then measure again.',
+    checkPassed: 'Passed',
+    checksSkipped: 'Skipped',
+    continueToTest: 'Continue to the test',
+    skipChecks: 'Continue without passing the checks',
+    speechSettings: 'Speech settings',
+    speechSettingsHint: 'Slower, lower and louder speech can help older and hard-of-hearing listeners. The settings are saved for the selected profile.',
+    profile: 'Profile',
+    defaultProfile: 'Default',
+    newProfileName: 'New profile',
+    addProfile: 'Add profile',
+    speechRate: 'Speaking rate',
+    speechPitch: 'Pitch',
+    voice: 'Voice',
+    defaultVoice: 'Default voice',
+    deviceVoices: 'Voices of this device',
+    previewSpeech: 'Listen to a sample',
+    stopTest: 'Stop the test',
+    fluencyOption: 'End with the animal naming task (one minute)',
+    fluencyInstructions: 'Finally, you will name as many animals as you can in one minute.',
+  },
+};
+
+export default en;
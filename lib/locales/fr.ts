@@ -0,0 +1,326 @@
+import { LocaleBundle } from './types';
+
+const fr: LocaleBundle = {
+  code: 'fr',
+  name: 'Français',
+  speechLang: 'fr-FR',
+  wordLists: [
+    ['Banane', 'Aurore', 'Chaise'],
+    ['Chef', 'Saison', 'Table'],
+    ['Village', 'Cuisine', 'Bébé'],
+    ['Rivière', 'Nation', 'Doigt'],
+    ['Capitaine', 'Jardin', 'Tableau'],
+    ['Fille', 'Paradis', 'Montagne'],
+  ],
+  misWordLists: [
+    [
+      { word: 'Dames', category: 'un jeu' },
+      { word: 'Soucoupe', category: 'de la vaisselle' },
+      { word: 'Télégramme', category: 'un message' },
+      { word: 'Croix-Rouge', category: 'une organisation' },
+    ],
+    [
+      { word: 'Banane', category: 'un fruit' },
+      { word: 'Marteau', category: 'un outil' },
+      { word: 'Violon', category: 'un instrument de musique' },
+      { word: 'Tulipe', category: 'une fleur' },
+    ],
+  ],
+  prompts: {
+    introduction: 'Je vais vous dire trois mots. Écoutez attentivement et retenez-les. Je vous demanderai de les répéter plus tard.',
+    clockDrawing: 'Maintenant, dessinez une horloge. Placez tous les chiffres et réglez les aiguilles sur onze heures dix. Appuyez sur Terminé lorsque vous avez fini.',
+    recall: "Veuillez répéter les trois mots que j'ai dits tout à l'heure.",
+    recallReprompt: "Je n'ai pas entendu de réponse. Veuillez me dire les mots dont vous vous souvenez.",
+    misIntroduction: 'Je vais vous dire quatre mots. Écoutez bien et retenez-les. Je vous les demanderai plus tard.',
+    misRecall: "Veuillez me dire les quatre mots que j'ai dits tout à l'heure.",
+    categoryCue: "L'un des mots était {category}. Quel était ce mot ?",
+    fluency: "Maintenant, citez autant d'animaux que possible. Vous avez une minute. Commencez maintenant.",
+    orientationIntroduction: "Je vais maintenant vous poser quelques questions sur la date et l'endroit où nous sommes.",
+    orientationYear: 'En quelle année sommes-nous ?',
+    orientationSeason: 'En quelle saison sommes-nous ?',
+    orientationDate: 'Quel jour du mois sommes-nous ?',
+    orientationDayOfWeek: 'Quel jour de la semaine sommes-nous ?',
+    orientationMonth: 'En quel mois sommes-nous ?',
+    orientationCity: 'Dans quelle ville sommes-nous ?',
+    orientationCountry: 'Dans quel pays sommes-nous ?',
+    orientationReprompt: "Je n'ai pas entendu de réponse. Veuillez répondre à la question.",
+    countBackward: 'Veuillez compter à rebours de vingt à un.',
+    serialSevens: 'Veuillez partir de cent et retirer sept à chaque fois. Dites chaque résultat à voix haute.',
+    spellBackward: "Veuillez épeler le mot {word} à l'envers.",
+    interferenceReprompt: "Je n'ai pas entendu de réponse. Veuillez essayer l'exercice.",
+    digitSpanForwardIntroduction: "Je vais vous dire quelques chiffres. Quand je m'arrête, répétez-les dans le même ordre, s'il vous plaît.",
+    digitSpanBackwardIntroduction: "Je vais maintenant vous dire d'autres chiffres. Quand je m'arrête, répétez-les dans l'ordre inverse. Si je dis sept un, vous dites un sept.",
+    digitSpanReprompt: "Je n'ai pas entendu de réponse. Veuillez dire les chiffres dont vous vous souvenez.",
+    calibrationSample: 'Voici comment les questions du test seront prononcées.',
+  },
+  interpretation: {
+    negativeScreen: "Un score de 3 à 5 est un dépistage négatif. Une démence est moins probable, mais un certain degré de trouble cognitif n'est pas exclu.",
+    positiveScreen: 'Un score de 0 à 2 est un dépistage positif. Une évaluation complémentaire des troubles cognitifs est recommandée.',
+  },
+  misInterpretation: {
+    negativeScreen: "Un score de 5 à 8 est un dépistage négatif. Il n'exclut pas de légers troubles de la mémoire.",
+    positiveScreen: 'Un score de 0 à 4 est un dépistage positif. Une évaluation plus approfondie de la mémoire est recommandée.',
+  },
+  clockRubric: {
+    normal: [
+      'Tous les chiffres de 1 à 12 sont présents, dans le bon ordre et à la bonne place',
+      'Les aiguilles indiquent le 11 et le 2 (onze heures dix)',
+      "La longueur des aiguilles n'est pas notée",
+    ],
+    abnormal: [
+      "Chiffres manquants, en double, dans le désordre ou placés hors de l'horloge",
+      'Aiguilles manquantes, sur les mauvais chiffres, ou dessin refusé',
+    ],
+  },
+  giveUpPhrases: [
+    'je ne sais pas',
+    'je sais pas',
+    'aucune idée',
+    "j'ai oublié",
+    'je ne me souviens pas',
+    'je me souviens pas',
+    "je ne m'en souviens pas",
+    "je m'en souviens pas",
+    "j'abandonne",
+  ],
+  wordListLearning: {
+    words: ['Beurre', 'Bras', 'Plage', 'Lettre', 'Reine', 'Cabane', 'Poteau', 'Billet', 'Herbe', 'Moteur'],
+    distractors: ['Église', 'Café', 'Dollar', 'Cinquante', 'Hôtel', 'Montagne', 'Pantoufle', 'Village', 'Ficelle', 'Armée'],
+    yesWords: ['oui', 'ouais', 'exact'],
+    noWords: ['non', 'pas'],
+    prompts: {
+      introduction: "Je vais vous lire une liste de dix mots. Écoutez attentivement. Ensuite, dites-moi tous les mots dont vous vous souvenez, dans n'importe quel ordre.",
+      nextTrial: 'Je vais relire la même liste dans un ordre différent. Ensuite, dites-moi tous les mots dont vous vous souvenez, y compris ceux que vous avez déjà dits.',
+      immediateRecall: 'Maintenant, dites-moi tous les mots dont vous vous souvenez.',
+      delayedRecall: "Tout à l'heure, je vous ai lu trois fois une liste de dix mots. Dites-moi tous les mots de cette liste dont vous vous souvenez encore.",
+      recognitionIntro: "Je vais maintenant vous dire des mots, un par un. Pour chaque mot, dites oui s'il était sur la liste, ou non s'il n'y était pas.",
+    },
+  },
+  orientation: {
+    months: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+    weekdays: ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi'],
+    seasons: {
+      spring: ['printemps'],
+      summer: ['été'],
+      autumn: ['automne'],
+      winter: ['hiver'],
+    },
+  },
+  interference: {
+    spellWord: 'MONDE',
+    letterNames: { ème: 'm', emme: 'm', ène: 'n', enne: 'n', dé: 'd', eu: 'e', euh: 'e', oh: 'o', au: 'o' },
+  },
+  numbers: {
+    words: {
+      zéro: 0, un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, six: 6, sept: 7, huit: 8, neuf: 9,
+      dix: 10, onze: 11, douze: 12, treize: 13, quatorze: 14, quinze: 15, seize: 16, vingt: 20, trente: 30,
+      quarante: 40, cinquante: 50, soixante: 60, quatrevingt: 80, quatrevingts: 80, cent: 100, cents: 100,
+      mille: 1000, premier: 1, première: 1, dixsept: 17, dixhuit: 18, dixneuf: 19,
+    },
+    connectors: ['et'],
+    ordinalSuffixes: ['ième', 'ieme', 'ème'],
+    ordinalStems: { quatr: 4, cinqu: 5, neuv: 9, onz: 11, douz: 12, treiz: 13, quatorz: 14, quinz: 15, seiz: 16, trent: 30, quarant: 40, cinquant: 50, soixant: 60, dixneuv: 19 },
+    rewrites: {
+      'quatre-vingt': 'quatrevingt',
+      'quatre vingt': 'quatrevingt',
+      'dix-sept': 'dixsept',
+      'dix-huit': 'dixhuit',
+      'dix-neuf': 'dixneuf',
+      'dix-neuv': 'dixneuv',
+    },
+    pairedYears: false,
+  },
+  ui: {
+    appTitle: "Test vocal d'Alzheimer",
+    welcomeTitle: "Bienvenue dans le test vocal d'Alzheimer",
+    welcomeIntro: 'Cette application administre un test de mémoire simple par la voix. Vous entendrez trois mots, dessinerez une horloge, puis il vous sera demandé de répéter les mots.',
+    welcomeMiniCog: 'Ce test suit le Mini-Cog, qui associe le rappel de mots au dessin d’une horloge et sert de dépistage rapide des troubles cognitifs.',
+    disclaimer: "Remarque : ceci n'est pas un outil de diagnostic. Si vous êtes inquiet pour votre mémoire ou vos fonctions cognitives, consultez un professionnel de santé.",
+    footer: "Cette application utilise le modèle vocal Sesame CSM via l'API Hugging Face Inference.",
+    modelCredit: "Cette application utilise le modèle vocal Qwen2-Audio via l'API Hugging Face Inference.",
+    languageLabel: 'Langue',
+    testTitle: "Test vocal d'Alzheimer",
+    instructions: "Ce test évalue votre mémoire par la voix. Vous entendrez trois mots, dessinerez une horloge, ferez un court exercice de calcul ou d'épellation, puis il vous sera demandé de répéter les mots.",
+    startTest: 'Commencer le test',
+    errorDuringTest: 'Erreur pendant le test',
+    listenCarefully: 'Écoutez attentivement ces mots :',
+    wordProgress: (current, total) => `Mot ${current} sur ${total}`,
+    waitMoment: 'Veuillez patienter un instant...',
+    repeatWords: 'Veuillez répéter les trois mots entendus tout à l’heure :',
+    listening: 'Écoute en cours...',
+    resultsTitle: 'Résultats du test',
+    wordsToRemember: 'Mots à retenir',
+    yourResponse: 'Votre réponse',
+    recordedResponse: 'Réponse enregistrée',
+    recalledAs: 'rappelé comme',
+    soundsLike: 'ressemble à',
+    missed: 'oublié',
+    responseLatency: 'Temps de réponse',
+    noSpeechDetected: 'aucune parole détectée',
+    speakingTime: 'Temps de parole',
+    pauses: 'Pauses',
+    wordsRecalled: 'Mots correctement rappelés',
+    clockDrawing: "Dessin de l'horloge",
+    clockNormal: 'Normal',
+    clockAbnormal: 'Anormal',
+    points: 'points',
+    miniCogTotal: 'Total Mini-Cog',
+    outOf: 'sur',
+    takeTestAgain: 'Refaire le test',
+    clockInstructions: 'Dessinez une horloge avec tous les chiffres et réglez les aiguilles sur onze heures dix.',
+    clockClear: 'Effacer',
+    clockDone: 'Terminé',
+    clockScorePrompt: "Clinicien : veuillez noter le dessin de l'horloge.",
+    clockDrawingAlt: "Dessin de l'horloge du patient",
+    testModeLabel: 'Test',
+    modeMiniCog: 'Mini-Cog (3 mots et horloge)',
+    modeWordListLearning: 'Apprentissage de liste (10 mots)',
+    wordListTitle: "Test d'apprentissage d'une liste de mots",
+    wordListInstructions: 'Vous entendrez trois fois une liste de dix mots et répéterez après chaque lecture les mots dont vous vous souvenez. Après un court dessin, on vous redemandera les mots, puis si certains mots étaient sur la liste.',
+    trialProgress: (trial, total) => `Essai ${trial} sur ${total}`,
+    recallAllWords: 'Dites tous les mots dont vous vous souvenez :',
+    recognitionQuestion: 'Ce mot était-il sur la liste ? Dites oui ou non.',
+    trialScores: 'Mots rappelés par essai',
+    trialTotal: 'Total des essais d’apprentissage',
+    learningSlope: "Pente d'apprentissage",
+    perTrial: 'mots par essai',
+    delayedRecall: 'Rappel différé',
+    savings: 'Conservation',
+    recognition: 'Reconnaissance',
+    hits: 'mots de la liste reconnus',
+    correctRejections: 'nouveaux mots rejetés',
+    discriminability: 'Discriminabilité',
+    notUnderstood: 'non compris',
+    viewHistory: 'Voir les résultats précédents',
+    historyTitle: 'Historique des résultats',
+    backToTest: 'Retour au test',
+    noHistory: 'Aucun test terminé pour le moment.',
+    deleteEntry: 'Supprimer',
+    clearAll: 'Tout effacer',
+    confirmClearAll: 'Supprimer tous les résultats enregistrés ? Cette action est irréversible.',
+    scoreTrend: 'Score au fil du temps',
+    completedAt: 'Terminé le',
+    historyUnavailable: 'Les résultats enregistrés ne sont pas disponibles dans ce navigateur.',
+    deleteFailed: "Les résultats enregistrés n'ont pas pu être supprimés. Veuillez réessayer.",
+    downloadFhir: 'Télécharger le dossier FHIR',
+    downloadReport: 'Télécharger le rapport',
+    reportTitle: 'Rapport pour le clinicien',
+    patientName: 'Nom du patient',
+    patientId: 'Identifiant du patient',
+    dateOfBirth: 'Date de naissance',
+    paperSize: 'Format du papier',
+    reportDate: 'Date et heure',
+    wordMatches: 'Correspondance des mots',
+    totalScore: 'Score total',
+    interpretation: 'Interprétation',
+    noInterpretation: "Cette application ne définit pas de seuil pour ce test ; comparez les scores aux normes ajustées selon l'âge et le niveau d'études.",
+    doneSpeaking: "J'ai terminé",
+    recallAttempts: 'Tentatives',
+    outcomeResponse: 'répondu',
+    outcomeNoSpeech: 'aucune réponse entendue',
+    outcomeGaveUp: 'abandon',
+    outcomeError: 'erreur de reconnaissance',
+    modeMis: 'Memory Impairment Screen (4 mots avec indices de catégorie)',
+    cueHint: 'Indice',
+    freeRecall: 'Rappel libre',
+    cuedRecall: 'Rappelé après un indice',
+    misTotal: 'Total MIS',
+    misInstructions: "Ce test évalue votre mémoire par la voix. Vous entendrez quatre mots, ferez un court exercice de calcul ou d'épellation, puis il vous sera demandé de les répéter. Pour les mots oubliés, vous recevrez un indice.",
+    animalFluency: 'Animaux cités en une minute',
+    nameAnimals: "Citez autant d'animaux que possible",
+    secondsLeft: seconds => `encore ${seconds} s`,
+    fluencyPerBin: 'Par tranche de 15 secondes',
+    perseverations: 'Répétés',
+    intrusions: 'Pas des animaux',
+    modeOrientation: "Questions d'orientation (date et lieu)",
+    orientationPrefix: "Commencer par les questions d'orientation",
+    orientationInstructions: "Ce test vous pose quelques questions orales sur la date et l'endroit où vous êtes. Répondez à voix haute à chaque question.",
+    answerQuestion: 'Répondez à la question à voix haute.',
+    orientation: 'Orientation',
+    orientationTotal: 'Total orientation',
+    expectedAnswer: 'Attendu',
+    orientationItems: {
+      year: 'Année',
+      season: 'Saison',
+      date: 'Date',
+      dayOfWeek: 'Jour de la semaine',
+      month: 'Mois',
+      city: 'Ville',
+      country: 'Pays',
+    },
+    interferenceTask: 'Tâche avant le rappel',
+    interferenceTasks: {
+      countBackward: 'Compter à rebours depuis 20',
+      serialSevens: 'Soustraire sept à partir de 100',
+      spellBackward: "Épeler un mot à l'envers",
+    },
+    heardAnswer: 'Entendu',
+    interferenceCorrect: 'Étapes correctes',
+    modeDigitSpan: 'Empan de chiffres (endroit et envers)',
+    digitSpanInstructions: "Ce test évalue votre attention par la voix. Vous entendrez des séries de chiffres, un par seconde. Répétez chaque série à voix haute, d'abord dans le même ordre, puis dans l'ordre inverse.",
+    listenToNumbers: 'Écoutez les chiffres...',
+    repeatForward: 'Répétez les chiffres dans le même ordre.',
+    repeatBackward: "Répétez les chiffres dans l'ordre inverse.",
+    digitSpanForward: 'Empan endroit',
+    digitSpanBackward: 'Empan envers',
+    longestSpan: 'Empan le plus long',
+    digitSpanTotal: 'Total empan de chiffres',
+    answerModality: 'Réponses',
+    answerModalities: {
+      speech: 'Orales',
+      typed: 'Saisies au clavier',
+    },
+    typeAnswers: 'Saisir les réponses au clavier au lieu de les dire',
+    typedAnswersFallback: "La reconnaissance vocale n'est pas disponible dans ce navigateur, les réponses sont donc saisies au clavier.",
+    typeAnswer: 'Saisissez votre réponse et appuyez sur Entrée',
+    typeAnimals: 'Saisissez chaque animal et appuyez sur Entrée',
+    submitAnswer: 'Valider',
+    spokenCaption: 'Énoncé',
+    clockOnPaper: 'Dessinée sur papier',
+    clockDrawnOnPaper: "L'horloge a été dessinée sur papier.",
+    calibrationTitle: 'Vérification audio',
+    calibrationIntro: 'Avant le test, vérifiez que vous entendez les questions et que le microphone capte votre voix.',
+    speakerCheck: 'Haut-parleurs',
+    volume: 'Volume',
+    playTone: 'Jouer un son',
+    playSample: 'Jouer un exemple parlé',
+    heardClearly: "J'ai bien entendu les deux",
+    notHeard: "Je n'ai rien entendu",
+    notHeardHint: "Augmentez le volume ou réactivez le son de l'appareil, puis rejouez-les.",
+    microphoneCheck: 'Microphone',
+    microphoneLevel: 'Niveau du microphone',
+    microphoneUnavailable: "Le microphone n'a pas pu être ouvert. Autorisez l'accès au microphone dans le navigateur et réessayez.",
+    sayTestPhrase: 'Appuyez sur le bouton et dites :',
+    calibrationPhrase: "Le soleil brille aujourd'hui",
+    startPhraseCheck: 'Dire la phrase',
+    phraseRecognized: 'La phrase a été reconnue.',
+    phraseNotRecognized: "La phrase n'a pas été reconnue. Parlez plus près du microphone et réessayez.",
+    noiseCheck: 'Bruit de fond',
+    stayQuiet: 'Restez silencieux quelques secondes pendant la mesure du bruit de fond.',
+    measureNoise: 'Mesurer le bruit de fond',
+    noiseLevel: 'Niveau de bruit',
+    noiseOk: 'La pièce est suffisamment calme.',
+    noiseTooLoud: 'La pièce est trop bruyante pour une reconnaissance vocale fiable. Réduisez le bruit ou installez-vous dans un endroit plus calme, puis mesurez à nouveau.',
+    checkPassed: 'Réussi',
+    checksSkipped: 'Ignorées',
+    continueToTest: 'Continuer vers le test',
+    skipChecks: 'Continuer sans avoir réussi les vérifications',
+    speechSettings: 'Réglages de la voix',
+    speechSettingsHint: 'Une voix plus lente, plus grave et plus forte peut aider les personnes âgées et malentendantes. Les réglages sont enregistrés pour le profil choisi.',
+    profile: 'Profil',
+    defaultProfile: 'Par défaut',
+    newProfileName: 'Nouveau profil',
+    addProfile: 'Ajouter le profil',
+    speechRate: 'Débit',
+    speechPitch: 'Hauteur',
+    voice: 'Voix',
+    defaultVoice: 'Voix par défaut',
+    deviceVoices: 'Voix de cet appareil',
+    previewSpeech: 'Écouter un exemple',
+    stopTest: 'Arrêter le test',
+    fluencyOption: "Terminer par l'énumération d'animaux (une minute)",
+    fluencyInstructions: "Enfin, vous citerez autant d'animaux que possible en une minute.",
+  },
+};
+
+export default fr;
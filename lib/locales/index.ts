@@ -0,0 +1,35 @@
+/**
+ * Locale bundles for the supported test languages
+ */
+
+import { LocaleBundle, LocaleCode } from './types';
+import en from './en';
+import nl from './nl';
+import de from './de';
+import fr from './fr';
+
+export type { LocaleBundle, LocaleCode, CategorizedWord } from './types';
+
+export const DEFAULT_LOCALE: LocaleCode = 'en';
+
+// Cookie that remembers the selected locale, so the server can render <html lang>
+export const LOCALE_COOKIE = 'locale';
+
+export const locales: Record<LocaleCode, LocaleBundle> = { en, nl, de, fr };
+
+/**
+ * Returns true when the value is a supported locale code
+ */
+export function isLocaleCode(value: string | undefined): value is LocaleCode {
+  return !!value && value in locales;
+}
+
+/**
+ * Returns the bundle for a locale code, falling back to the default locale
+ *
+ * @param code - Locale code, e.g. from a cookie
+ * @returns The locale bundle
+ */
+export function getLocaleBundle(code: string | undefined): LocaleBundle {
+  return isLocaleCode(code) ? locales[code] : locales[DEFAULT_LOCALE];
+}
@@ -0,0 +1,318 @@
+import { LocaleBundle } from './types';
+
+const nl: LocaleBundle = {
+  code: 'nl',
+  name: 'Nederlands',
+  speechLang: 'nl-NL',
+  wordLists: [
+    ['Banaan', 'Zonsopgang', 'Stoel'],
+    ['Leider', 'Seizoen', 'Tafel'],
+    ['Dorp', 'Keuken', 'Baby'],
+    ['Rivier', 'Natie', 'Vinger'],
+    ['Kapitein', 'Tuin', 'Foto'],
+    ['Dochter', 'Hemel', 'Berg'],
+  ],
+  misWordLists: [
+    [
+      { word: 'Dammen', category: 'een spel' },
+      { word: 'Schotel', category: 'serviesgoed' },
+      { word: 'Telegram', category: 'een bericht' },
+      { word: 'Rode Kruis', category: 'een organisatie' },
+    ],
+    [
+      { word: 'Banaan', category: 'een vrucht' },
+      { word: 'Hamer', category: 'gereedschap' },
+      { word: 'Viool', category: 'een muziekinstrument' },
+      { word: 'Tulp', category: 'een bloem' },
+    ],
+  ],
+  prompts: {
+    introduction: 'Ik ga drie woorden zeggen. Luister goed en onthoud ze. Straks vraag ik u deze woorden te herhalen.',
+    clockDrawing: 'Teken nu een klok. Zet alle cijfers erin en zet de wijzers op tien over elf. Tik op klaar als u klaar bent.',
+    recall: 'Herhaal alstublieft de drie woorden die ik eerder zei.',
+    recallReprompt: 'Ik heb geen antwoord gehoord. Noem alstublieft de woorden die u nog weet.',
+    misIntroduction: 'Ik noem vier woorden. Luister goed en onthoud ze. Ik vraag u later naar deze woorden.',
+    misRecall: 'Noem alstublieft de vier woorden die ik eerder zei.',
+    categoryCue: 'Een van de woorden was {category}. Welk woord was het?',
+    fluency: 'Noem nu zoveel mogelijk dieren. U heeft één minuut. Begin maar.',
+    orientationIntroduction: 'Ik stel u nu een paar vragen over de datum en waar we zijn.',
+    orientationYear: 'Welk jaar is het?',
+    orientationSeason: 'Welk seizoen is het?',
+    orientationDate: 'De hoeveelste is het vandaag?',
+    orientationDayOfWeek: 'Welke dag van de week is het?',
+    orientationMonth: 'Welke maand is het?',
+    orientationCity: 'In welke stad zijn we?',
+    orientationCountry: 'In welk land zijn we?',
+    orientationReprompt: 'Ik heb geen antwoord gehoord. Beantwoord alstublieft de vraag.',
+    countBackward: 'Tel alstublieft terug van twintig tot één.',
+    serialSevens: 'Begin alstublieft bij honderd en trek er steeds zeven vanaf. Zeg elk antwoord hardop.',
+    spellBackward: 'Spel alstublieft het woord {word} achterstevoren.',
+    interferenceReprompt: 'Ik heb geen antwoord gehoord. Probeer de opdracht alstublieft.',
+    digitSpanForwardIntroduction: 'Ik noem zo een paar cijfers. Herhaal ze alstublieft in dezelfde volgorde als ik stop.',
+    digitSpanBackwardIntroduction: 'Nu noem ik weer een paar cijfers. Herhaal ze alstublieft in omgekeerde volgorde als ik stop. Als ik zeven één zeg, zegt u één zeven.',
+    digitSpanReprompt: 'Ik heb geen antwoord gehoord. Zeg alstublieft de cijfers die u zich herinnert.',
+    calibrationSample: 'Zo klinken de vragen van de test.',
+  },
+  interpretation: {
+    negativeScreen: 'Een score van 3 tot 5 is een negatieve screening. Dementie is minder waarschijnlijk, maar enige cognitieve beperking is niet uitgesloten.',
+    positiveScreen: 'Een score van 0 tot 2 is een positieve screening. Verder onderzoek naar cognitieve beperkingen wordt aanbevolen.',
+  },
+  misInterpretation: {
+    negativeScreen: 'Een score van 5 tot 8 is een negatieve screening. Lichte geheugenproblemen zijn daarmee niet uitgesloten.',
+    positiveScreen: 'Een score van 0 tot 4 is een positieve screening. Verder onderzoek van het geheugen wordt aanbevolen.',
+  },
+  clockRubric: {
+    normal: [
+      'Alle cijfers 1-12 zijn aanwezig, in de juiste volgorde en positie',
+      'De wijzers wijzen naar de 11 en de 2 (tien over elf)',
+      'De lengte van de wijzers telt niet mee',
+    ],
+    abnormal: [
+      'Cijfers ontbreken, staan dubbel, in de verkeerde volgorde of buiten de klok',
+      'Wijzers ontbreken, wijzen naar de verkeerde cijfers, of de tekening werd geweigerd',
+    ],
+  },
+  giveUpPhrases: [
+    'ik weet het niet',
+    'ik weet het niet meer',
+    'weet ik niet',
+    'weet ik niet meer',
+    'geen idee',
+    'ik ben het vergeten',
+    'vergeten',
+    'ik kan het me niet herinneren',
+    'ik geef het op',
+  ],
+  wordListLearning: {
+    words: ['Boter', 'Arm', 'Strand', 'Brief', 'Koningin', 'Hut', 'Paal', 'Kaartje', 'Gras', 'Motor'],
+    distractors: ['Kerk', 'Koffie', 'Dollar', 'Vijftig', 'Hotel', 'Berg', 'Pantoffel', 'Dorp', 'Touw', 'Leger'],
+    yesWords: ['ja', 'jawel', 'klopt'],
+    noWords: ['nee', 'neen', 'niet'],
+    prompts: {
+      introduction: 'Ik ga u een lijst van tien woorden voorlezen. Luister goed. Noem daarna alle woorden die u zich herinnert, in willekeurige volgorde.',
+      nextTrial: 'Ik lees dezelfde lijst nog eens voor, in een andere volgorde. Noem daarna alle woorden die u zich herinnert, ook de woorden die u al eerder noemde.',
+      immediateRecall: 'Noem nu alle woorden die u zich herinnert.',
+      delayedRecall: 'Eerder heb ik u drie keer een lijst van tien woorden voorgelezen. Noem alle woorden van die lijst die u zich nog herinnert.',
+      recognitionIntro: 'Ik noem nu een aantal woorden, één voor één. Zeg bij elk woord ja als het op de lijst stond, of nee als het er niet op stond.',
+    },
+  },
+  orientation: {
+    months: ['januari', 'februari', 'maart', 'april', 'mei', 'juni', 'juli', 'augustus', 'september', 'oktober', 'november', 'december'],
+    weekdays: ['zondag', 'maandag', 'dinsdag', 'woensdag', 'donderdag', 'vrijdag', 'zaterdag'],
+    seasons: {
+      spring: ['lente', 'voorjaar'],
+      summer: ['zomer'],
+      autumn: ['herfst', 'najaar'],
+      winter: ['winter'],
+    },
+  },
+  interference: {
+    spellWord: 'WERELD',
+    letterNames: { dee: 'd', el: 'l', ee: 'e', eh: 'e', er: 'r', wee: 'w' },
+  },
+  numbers: {
+    words: {
+      nul: 0, een: 1, twee: 2, drie: 3, vier: 4, vijf: 5, zes: 6, zeven: 7, acht: 8, negen: 9, tien: 10,
+      elf: 11, twaalf: 12, dertien: 13, veertien: 14, vijftien: 15, zestien: 16, zeventien: 17,
+      achttien: 18, negentien: 19, één: 1, twintig: 20, dertig: 30, veertig: 40, vijftig: 50, zestig: 60,
+      zeventig: 70, tachtig: 80, negentig: 90, honderd: 100, duizend: 1000,
+    },
+    connectors: ['en', 'ën'],
+    ordinalSuffixes: ['ste', 'de'],
+    ordinalStems: { eer: 1, der: 3 },
+    pairedYears: true,
+  },
+  ui: {
+    appTitle: 'Alzheimer-spraaktest',
+    welcomeTitle: 'Welkom bij de Alzheimer-spraaktest',
+    welcomeIntro: 'Deze toepassing neemt een eenvoudige geheugentest af met spraak. U hoort drie woorden, tekent een klok en wordt daarna gevraagd de woorden te herhalen.',
+    welcomeMiniCog: 'Deze test volgt de Mini-Cog, die woorden onthouden combineert met het tekenen van een klok en wordt gebruikt als snelle screening op cognitieve beperkingen.',
+    disclaimer: 'Let op: dit is geen diagnostisch hulpmiddel. Raadpleeg een zorgverlener als u zich zorgen maakt over uw geheugen of denkvermogen.',
+    footer: 'Deze toepassing gebruikt het Sesame CSM-stemmodel via de Hugging Face Inference API.',
+    modelCredit: 'Deze toepassing gebruikt het Qwen2-Audio-stemmodel via de Hugging Face Inference API.',
+    languageLabel: 'Taal',
+    testTitle: 'Alzheimer-spraaktest',
+    instructions: 'Deze test meet uw geheugen met behulp van spraak. U hoort drie woorden, tekent een klok, doet een korte tel- of spelopdracht en wordt daarna gevraagd de woorden te herhalen.',
+    startTest: 'Test starten',
+    errorDuringTest: 'Fout tijdens de test',
+    listenCarefully: 'Luister goed naar deze woorden:',
+    wordProgress: (current, total) => `Woord ${current} van ${total}`,
+    waitMoment: 'Een ogenblik geduld...',
+    repeatWords: 'Herhaal de drie woorden die u eerder hoorde:',
+    listening: 'Aan het luisteren...',
+    resultsTitle: 'Testresultaten',
+    wordsToRemember: 'Woorden die u moest onthouden',
+    yourResponse: 'Uw antwoord',
+    recordedResponse: 'Opgenomen antwoord',
+    recalledAs: 'herinnerd als',
+    soundsLike: 'klinkt als',
+    missed: 'gemist',
+    responseLatency: 'Reactietijd',
+    noSpeechDetected: 'geen spraak gedetecteerd',
+    speakingTime: 'Spreektijd',
+    pauses: 'Pauzes',
+    wordsRecalled: 'Correct herinnerde woorden',
+    clockDrawing: 'Kloktekening',
+    clockNormal: 'Normaal',
+    clockAbnormal: 'Afwijkend',
+    points: 'punten',
+    miniCogTotal: 'Mini-Cog totaal',
+    outOf: 'van',
+    takeTestAgain: 'Test opnieuw doen',
+    clockInstructions: 'Teken een klok met alle cijfers en zet de wijzers op tien over elf.',
+    clockClear: 'Wissen',
+    clockDone: 'Klaar',
+    clockScorePrompt: 'Zorgverlener: beoordeel de kloktekening.',
+    clockDrawingAlt: 'Kloktekening van de patiënt',
+    testModeLabel: 'Test',
+    modeMiniCog: 'Mini-Cog (3 woorden en klok)',
+    modeWordListLearning: 'Woordenlijst leren (10 woorden)',
+    wordListTitle: 'Woordenlijst-leertest',
+    wordListInstructions: 'U hoort drie keer een lijst van tien woorden en noemt na elke keer de woorden die u zich herinnert. Na een korte tekenopdracht wordt opnieuw naar de woorden gevraagd, en tot slot of bepaalde woorden op de lijst stonden.',
+    trialProgress: (trial, total) => `Ronde ${trial} van ${total}`,
+    recallAllWords: 'Noem alle woorden die u zich herinnert:',
+    recognitionQuestion: 'Stond dit woord op de lijst? Zeg ja of nee.',
+    trialScores: 'Herinnerde woorden per ronde',
+    trialTotal: 'Totaal over de leerrondes',
+    learningSlope: 'Leercurve',
+    perTrial: 'woorden per ronde',
+    delayedRecall: 'Uitgestelde herinnering',
+    savings: 'Behoud',
+    recognition: 'Herkenning',
+    hits: 'lijstwoorden herkend',
+    correctRejections: 'nieuwe woorden afgewezen',
+    discriminability: 'Discriminatie',
+    notUnderstood: 'niet verstaan',
+    viewHistory: 'Eerdere resultaten bekijken',
+    historyTitle: 'Resultatengeschiedenis',
+    backToTest: 'Terug naar de test',
+    noHistory: 'Nog geen afgeronde tests.',
+    deleteEntry: 'Verwijderen',
+    clearAll: 'Alles wissen',
+    confirmClearAll: 'Alle opgeslagen resultaten verwijderen? Dit kan niet ongedaan worden gemaakt.',
+    scoreTrend: 'Score in de tijd',
+    completedAt: 'Afgerond op',
+    historyUnavailable: 'Opgeslagen resultaten zijn niet beschikbaar in deze browser.',
+    deleteFailed: 'De opgeslagen resultaten konden niet worden verwijderd. Probeer het opnieuw.',
+    downloadFhir: 'FHIR-dossier downloaden',
+    downloadReport: 'Rapport downloaden',
+    reportTitle: 'Rapport voor de behandelaar',
+    patientName: 'Naam patiënt',
+    patientId: 'Patiëntnummer',
+    dateOfBirth: 'Geboortedatum',
+    paperSize: 'Papierformaat',
+    reportDate: 'Datum en tijd',
+    wordMatches: 'Woordherkenning',
+    totalScore: 'Totaalscore',
+    interpretation: 'Interpretatie',
+    noInterpretation: 'Deze applicatie hanteert geen afkapwaarde voor deze test; vergelijk de scores met normen voor leeftijd en opleiding.',
+    doneSpeaking: 'Ik ben klaar',
+    recallAttempts: 'Pogingen',
+    outcomeResponse: 'beantwoord',
+    outcomeNoSpeech: 'geen antwoord gehoord',
+    outcomeGaveUp: 'opgegeven',
+    outcomeError: 'herkenningsfout',
+    modeMis: 'Memory Impairment Screen (4 woorden met categorie-hints)',
+    cueHint: 'Hint',
+    freeRecall: 'Vrije herinnering',
+    cuedRecall: 'Herinnerd na een hint',
+    misTotal: 'MIS-totaal',
+    misInstructions: 'Deze test meet uw geheugen met behulp van spraak. U hoort vier woorden, doet een korte tel- of spelopdracht en wordt daarna gevraagd ze te herhalen. Voor woorden die u vergeet, krijgt u een hint.',
+    animalFluency: 'Dieren genoemd in één minuut',
+    nameAnimals: 'Noem zoveel mogelijk dieren',
+    secondsLeft: seconds => `nog ${seconds} s`,
+    fluencyPerBin: 'Per 15 seconden',
+    perseverations: 'Herhaald',
+    intrusions: 'Geen dieren',
+    modeOrientation: 'Oriëntatievragen (datum en plaats)',
+    orientationPrefix: 'Begin met oriëntatievragen',
+    orientationInstructions: 'Deze test stelt u een paar gesproken vragen over de datum en waar u bent. Beantwoord elke vraag hardop.',
+    answerQuestion: 'Beantwoord de vraag hardop.',
+    orientation: 'Oriëntatie',
+    orientationTotal: 'Oriëntatie totaal',
+    expectedAnswer: 'Verwacht',
+    orientationItems: {
+      year: 'Jaar',
+      season: 'Seizoen',
+      date: 'Datum',
+      dayOfWeek: 'Dag van de week',
+      month: 'Maand',
+      city: 'Stad',
+      country: 'Land',
+    },
+    interferenceTask: 'Taak vóór het herinneren',
+    interferenceTasks: {
+      countBackward: 'Terugtellen vanaf 20',
+      serialSevens: 'Steeds zeven aftrekken vanaf 100',
+      spellBackward: 'Een woord achterstevoren spellen',
+    },
+    heardAnswer: 'Gehoord',
+    interferenceCorrect: 'Juiste stappen',
+    modeDigitSpan: 'Cijferreeksen (vooruit en achteruit)',
+    digitSpanInstructions: 'Deze test meet uw aandacht met behulp van spraak. U hoort reeksen cijfers, één per seconde. Herhaal elke reeks hardop, eerst in dezelfde volgorde en daarna in omgekeerde volgorde.',
+    listenToNumbers: 'Luister naar de cijfers...',
+    repeatForward: 'Herhaal de cijfers in dezelfde volgorde.',
+    repeatBackward: 'Herhaal de cijfers in omgekeerde volgorde.',
+    digitSpanForward: 'Cijferreeksen vooruit',
+    digitSpanBackward: 'Cijferreeksen achteruit',
+    longestSpan: 'Langste reeks',
+    digitSpanTotal: 'Totaal cijferreeksen',
+    answerModality: 'Antwoorden',
+    answerModalities: {
+      speech: 'Gesproken',
+      typed: 'Getypt',
+    },
+    typeAnswers: 'De antwoorden typen in plaats van uitspreken',
+    typedAnswersFallback: 'Spraakherkenning is niet beschikbaar in deze browser, dus de antwoorden worden getypt.',
+    typeAnswer: 'Typ uw antwoord en druk op Enter',
+    typeAnimals: 'Typ elk dier en druk op Enter',
+    submitAnswer: 'Versturen',
+    spokenCaption: 'Uitgesproken',
+    clockOnPaper: 'Op papier getekend',
+    clockDrawnOnPaper: 'De klok is op papier getekend.',
+    calibrationTitle: 'Geluidscontrole',
+    calibrationIntro: 'Controleer voor de test of u de vragen kunt horen en of de microfoon uw stem opvangt.',
+    speakerCheck: 'Luidsprekers',
+    volume: 'Volume',
+    playTone: 'Toon afspelen',
+    playSample: 'Gesproken voorbeeld afspelen',
+    heardClearly: 'Ik heb beide duidelijk gehoord',
+    notHeard: 'Ik heb ze niet gehoord',
+    notHeardHint: 'Zet het volume hoger of schakel het dempen uit en speel ze opnieuw af.',
+    microphoneCheck: 'Microfoon',
+    microphoneLevel: 'Microfoonniveau',
+    microphoneUnavailable: 'De microfoon kon niet worden geopend. Sta microfoontoegang toe in de browser en probeer het opnieuw.',
+    sayTestPhrase: 'Druk op de knop en zeg:',
+    calibrationPhrase: 'Vandaag schijnt de zon',
+    startPhraseCheck: 'Zin uitspreken',
+    phraseRecognized: 'De zin is herkend.',
+    phraseNotRecognized: 'De zin is niet herkend. Spreek dichter bij de microfoon en probeer het opnieuw.',
+    noiseCheck: 'Achtergrondgeluid',
+    stayQuiet: 'Wees een paar seconden stil terwijl het achtergrondgeluid wordt gemeten.',
+    measureNoise: 'Achtergrondgeluid meten',
+    noiseLevel: 'Geluidsniveau',
+    noiseOk: 'De ruimte is stil genoeg.',
+    noiseTooLoud: 'De ruimte is te rumoerig voor betrouwbare spraakherkenning. Verminder het geluid of ga naar een stillere plek en meet opnieuw.',
+    checkPassed: 'Geslaagd',
+    checksSkipped: 'Overgeslagen',
+    continueToTest: 'Verder naar de test',
+    skipChecks: 'Doorgaan zonder geslaagde controles',
+    speechSettings: 'Spraakinstellingen',
+    speechSettingsHint: 'Langzamere, lagere en luidere spraak kan ouderen en slechthorenden helpen. De instellingen worden bewaard voor het gekozen profiel.',
+    profile: 'Profiel',
+    defaultProfile: 'Standaard',
+    newProfileName: 'Nieuw profiel',
+    addProfile: 'Profiel toevoegen',
+    speechRate: 'Spreeksnelheid',
+    speechPitch: 'Toonhoogte',
+    voice: 'Stem',
+    defaultVoice: 'Standaardstem',
+    deviceVoices: 'Stemmen van dit apparaat',
+    previewSpeech: 'Voorbeeld beluisteren',
+    stopTest: 'Test stoppen',
+    fluencyOption: 'Afsluiten met dieren noemen (één minuut)',
+    fluencyInstructions: 'Tot slot noemt u in één minuut zoveel mogelijk dieren.',
+  },
+};
+
+export default nl;
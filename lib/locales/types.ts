@@ -0,0 +1,301 @@
+/**
+ * Shape of a locale bundle: everything the test says, shows or interprets in one language
+ */
+
+import { NumberLexicon } from '@/lib/spokenNumbers';
+
+export type LocaleCode = 'en' | 'nl' | 'de' | 'fr';
+
+// List word with the semantic category used as its recall cue
+export interface CategorizedWord {
+  word: string;
+  // Category phrase that fits the cue prompt, e.g. 'a fruit'
+  category: string;
+}
+
+export interface LocaleBundle {
+  code: LocaleCode;
+  // Language name in the language itself, for the locale selector
+  name: string;
+  // BCP 47 tag used for speech recognition, speech synthesis and <html lang>
+  speechLang: string;
+  // Mini-Cog word lists for this language
+  wordLists: string[][];
+  // Memory Impairment Screen word lists
+  misWordLists: CategorizedWord[][];
+  prompts: {
+    introduction: string;
+    clockDrawing: string;
+    recall: string;
+    // Spoken when no answer was heard
+    recallReprompt: string;
+    misIntroduction: string;
+    misRecall: string;
+    // Category cue for a missed word; {category} is replaced by the word's category
+    categoryCue: string;
+    fluency: string;
+    orientationIntroduction: string;
+    orientationYear: string;
+    orientationSeason: string;
+    orientationDate: string;
+    orientationDayOfWeek: string;
+    orientationMonth: string;
+    orientationCity: string;
+    orientationCountry: string;
+    orientationReprompt: string;
+    countBackward: string;
+    serialSevens: string;
+    // {word} is replaced by the word spelled backward
+    spellBackward: string;
+    interferenceReprompt: string;
+    digitSpanForwardIntroduction: string;
+    digitSpanBackwardIntroduction: string;
+    digitSpanReprompt: string;
+    calibrationSample: string;
+  };
+  interpretation: {
+    negativeScreen: string;
+    positiveScreen: string;
+  };
+  misInterpretation: {
+    negativeScreen: string;
+    positiveScreen: string;
+  };
+  clockRubric: {
+    normal: string[];
+    abnormal: string[];
+  };
+  // Phrases that end a recall attempt as an explicit "no words remembered"
+  giveUpPhrases: string[];
+  // CERAD-style word list learning test
+  wordListLearning: {
+    words: string[];
+    // Words not on the list, asked in the recognition trial
+    distractors: string[];
+    yesWords: string[];
+    noWords: string[];
+    prompts: {
+      introduction: string;
+      nextTrial: string;
+      immediateRecall: string;
+      delayedRecall: string;
+      recognitionIntro: string;
+    };
+  };
+  // Vocabulary for scoring orientation answers
+  orientation: {
+    // January first
+    months: string[];
+    // Month names that are also common words, e.g. 'May'; they only count when no other month is named
+    commonWordMonths?: string[];
+    // Sunday first, as Date.getDay() counts
+    weekdays: string[];
+    // Accepted names of each season, the usual one first
+    seasons: {
+      spring: string[];
+      summer: string[];
+      autumn: string[];
+      winter: string[];
+    };
+  };
+  // Vocabulary for scoring interference tasks
+  interference: {
+    // Word spelled backward, in capitals
+    spellWord: string;
+    // Spoken names of its letters, as recognizers may return them
+    letterNames: Record<string, string>;
+  };
+  // Number words, for answers given as numbers
+  numbers: NumberLexicon;
+  ui: {
+    appTitle: string;
+    welcomeTitle: string;
+    welcomeIntro: string;
+    welcomeMiniCog: string;
+    disclaimer: string;
+    footer: string;
+    modelCredit: string;
+    languageLabel: string;
+    testTitle: string;
+    instructions: string;
+    startTest: string;
+    errorDuringTest: string;
+    listenCarefully: string;
+    wordProgress: (current: number, total: number) => string;
+    waitMoment: string;
+    repeatWords: string;
+    listening: string;
+    resultsTitle: string;
+    wordsToRemember: string;
+    yourResponse: string;
+    recordedResponse: string;
+    recalledAs: string;
+    soundsLike: string;
+    missed: string;
+    responseLatency: string;
+    noSpeechDetected: string;
+    speakingTime: string;
+    pauses: string;
+    wordsRecalled: string;
+    clockDrawing: string;
+    clockNormal: string;
+    clockAbnormal: string;
+    points: string;
+    miniCogTotal: string;
+    outOf: string;
+    takeTestAgain: string;
+    clockInstructions: string;
+    clockClear: string;
+    clockDone: string;
+    clockScorePrompt: string;
+    clockDrawingAlt: string;
+    testModeLabel: string;
+    modeMiniCog: string;
+    modeWordListLearning: string;
+    wordListTitle: string;
+    wordListInstructions: string;
+    trialProgress: (trial: number, total: number) => string;
+    recallAllWords: string;
+    recognitionQuestion: string;
+    trialScores: string;
+    trialTotal: string;
+    learningSlope: string;
+    perTrial: string;
+    delayedRecall: string;
+    savings: string;
+    recognition: string;
+    hits: string;
+    correctRejections: string;
+    discriminability: string;
+    notUnderstood: string;
+    viewHistory: string;
+    historyTitle: string;
+    backToTest: string;
+    noHistory: string;
+    deleteEntry: string;
+    clearAll: string;
+    confirmClearAll: string;
+    scoreTrend: string;
+    completedAt: string;
+    historyUnavailable: string;
+    deleteFailed: string;
+    downloadFhir: string;
+    downloadReport: string;
+    reportTitle: string;
+    patientName: string;
+    patientId: string;
+    dateOfBirth: string;
+    paperSize: string;
+    reportDate: string;
+    wordMatches: string;
+    totalScore: string;
+    interpretation: string;
+    noInterpretation: string;
+    doneSpeaking: string;
+    recallAttempts: string;
+    outcomeResponse: string;
+    outcomeNoSpeech: string;
+    outcomeGaveUp: string;
+    outcomeError: string;
+    modeMis: string;
+    cueHint: string;
+    freeRecall: string;
+    cuedRecall: string;
+    misTotal: string;
+    misInstructions: string;
+    animalFluency: string;
+    nameAnimals: string;
+    secondsLeft: (seconds: number) => string;
+    fluencyPerBin: string;
+    perseverations: string;
+    intrusions: string;
+    modeOrientation: string;
+    orientationPrefix: string;
+    orientationInstructions: string;
+    answerQuestion: string;
+    orientation: string;
+    orientationTotal: string;
+    expectedAnswer: string;
+    orientationItems: {
+      year: string;
+      season: string;
+      date: string;
+      dayOfWeek: string;
+      month: string;
+      city: string;
+      country: string;
+    };
+    interferenceTask: string;
+    interferenceTasks: {
+      countBackward: string;
+      serialSevens: string;
+      spellBackward: string;
+    };
+    heardAnswer: string;
+    interferenceCorrect: string;
+    modeDigitSpan: string;
+    digitSpanInstructions: string;
+    listenToNumbers: string;
+    repeatForward: string;
+    repeatBackward: string;
+    digitSpanForward: string;
+    digitSpanBackward: string;
+    longestSpan: string;
+    digitSpanTotal: string;
+    answerModality: string;
+    answerModalities: {
+      speech: string;
+      typed: string;
+    };
+    typeAnswers: string;
+    typedAnswersFallback: string;
+    typeAnswer: string;
+    typeAnimals: string;
+    submitAnswer: string;
+    spokenCaption: string;
+    clockOnPaper: string;
+    clockDrawnOnPaper: string;
+    calibrationTitle: string;
+    calibrationIntro: string;
+    speakerCheck: string;
+    volume: string;
+    playTone: string;
+    playSample: string;
+    heardClearly: string;
+    notHeard: string;
+    notHeardHint: string;
+    microphoneCheck: string;
+    microphoneLevel: string;
+    microphoneUnavailable: string;
+    sayTestPhrase: string;
+    calibrationPhrase: string;
+    startPhraseCheck: string;
+    phraseRecognized: string;
+    phraseNotRecognized: string;
+    noiseCheck: string;
+    stayQuiet: string;
+    measureNoise: string;
+    noiseLevel: string;
+    noiseOk: string;
+    noiseTooLoud: string;
+    checkPassed: string;
+    checksSkipped: string;
+    continueToTest: string;
+    skipChecks: string;
+    speechSettings: string;
+    speechSettingsHint: string;
+    profile: string;
+    defaultProfile: string;
+    newProfileName: string;
+    addProfile: string;
+    speechRate: string;
+    speechPitch: string;
+    voice: string;
+    defaultVoice: string;
+    deviceVoices: string;
+    previewSpeech: string;
+    stopTest: string;
+    fluencyOption: string;
+    fluencyInstructions: string;
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Mini-Cog scoring helpers
+ *
+ * The Mini-Cog combines three-word recall (0-3 points) with a clock drawing
+ * (0 or 2 points) into a 0-5 total.
+ */
+
+import { LocaleBundle, locales, DEFAULT_LOCALE } from '@/lib/locales';
+
+export const MAX_RECALL_SCORE = 3;
+export const MAX_CLOCK_SCORE = 2;
+export const MAX_MINI_COG_SCORE = MAX_RECALL_SCORE + MAX_CLOCK_SCORE;
+
+// Totals below this value are a positive screen for cognitive impairment
+export const MINI_COG_CUTOFF = 3;
+
+export type ClockScore = 0 | 2;
+
+export interface MiniCogScore {
+  recallScore: number;
+  clockScore: ClockScore;
+  totalScore: number;
+  maxScore: number;
+  screenPositive: boolean;
+}
+
+/**
+ * Combines the recall and clock drawing scores into the Mini-Cog total
+ *
+ * @param recallScore - Number of words recalled without cues (0-3)
+ * @param clockScore - Clock drawing score (normal = 2, abnormal = 0)
+ * @returns The combined Mini-Cog score
+ */
+export function scoreMiniCog(recallScore: number, clockScore: ClockScore): MiniCogScore {
+  const boundedRecall = Math.max(0, Math.min(MAX_RECALL_SCORE, recallScore));
+  const totalScore = boundedRecall + clockScore;
+
+  return {
+    recallScore: boundedRecall,
+    clockScore,
+    totalScore,
+    maxScore: MAX_MINI_COG_SCORE,
+    screenPositive: totalScore < MINI_COG_CUTOFF,
+  };
+}
+
+/**
+ * Returns the standard interpretation of a Mini-Cog total
+ *
+ * @param totalScore - Mini-Cog total (0-5)
+ * @param bundle - Locale bundle with the interpretation texts
+ * @returns Human readable interpretation
+ */
+export function interpretMiniCog(totalScore: number, bundle: LocaleBundle = locales[DEFAULT_LOCALE]): string {
+  return totalScore >= MINI_COG_CUTOFF
+    ? bundle.interpretation.negativeScreen
+    : bundle.interpretation.positiveScreen;
+}
@@ -0,0 +1,54 @@
+/**
+ * Memory Impairment Screen (MIS) scoring helpers
+ *
+ * Words missed in free recall are cued with their category. Free recall counts
+ * double, so MIS = 2 × free recall + cued recall (0-8 with four words).
+ */
+
+import { LocaleBundle, locales, DEFAULT_LOCALE } from '@/lib/locales';
+
+// Totals at or below this value are a positive screen (four-word list)
+export const MIS_CUTOFF = 4;
+
+export interface MisScore {
+  freeRecall: number;
+  cuedRecall: number;
+  totalScore: number;
+  maxScore: number;
+  screenPositive: boolean;
+}
+
+/**
+ * Combines free and cued recall into the MIS total
+ *
+ * @param freeRecall - Words recalled without cues
+ * @param cuedRecall - Missed words recalled after their category cue
+ * @param wordCount - Number of list words
+ * @returns The MIS score
+ */
+export function scoreMis(freeRecall: number, cuedRecall: number, wordCount: number): MisScore {
+  const boundedFree = Math.max(0, Math.min(wordCount, freeRecall));
+  const boundedCued = Math.max(0, Math.min(wordCount - boundedFree, cuedRecall));
+  const totalScore = 2 * boundedFree + boundedCued;
+
+  return {
+    freeRecall: boundedFree,
+    cuedRecall: boundedCued,
+    totalScore,
+    maxScore: 2 * wordCount,
+    screenPositive: totalScore <= MIS_CUTOFF,
+  };
+}
+
+/**
+ * Returns the standard interpretation of an MIS total
+ *
+ * @param totalScore - MIS total (0-8)
+ * @param bundle - Locale bundle with the interpretation texts
+ * @returns Human readable interpretation
+ */
+export function interpretMis(totalScore: number, bundle: LocaleBundle = locales[DEFAULT_LOCALE]): string {
+  return totalScore > MIS_CUTOFF
+    ? bundle.misInterpretation.negativeScreen
+    : bundle.misInterpretation.positiveScreen;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { getLocaleBundle } from '@/lib/locales';
+import { OrientationContext, OrientationItem, acceptedSeasons, scoreOrientationAnswer } from './orientation';
+
+const en = getLocaleBundle('en');
+
+// Monday 19 October 2026, in Amsterdam
+const context: OrientationContext = {
+  date: new Date(2026, 9, 19, 10),
+  location: { city: 'Amsterdam', country: 'Netherlands', southernHemisphere: false },
+  language: 'en',
+  vocabulary: en.orientation,
+  numbers: en.numbers,
+};
+
+const isCorrect = (item: OrientationItem, transcript: string, at: Partial<OrientationContext> = {}) =>
+  scoreOrientationAnswer(item, transcript, { ...context, ...at }).correct;
+
+describe('scoreOrientationAnswer', () => {
+  it.each<[OrientationItem, string]>([
+    ['year', 'twenty twenty six'],
+    ['year', "it's 2026"],
+    ['year', 'the nineteenth of October 2026'],
+    ['date', 'the nineteenth'],
+    ['date', 'October 19th 2026'],
+    ['month', 'October'],
+    ['month', 'it is October 19th'],
+    ['month', 'it may be October'],
+    ['dayOfWeek', 'Monday'],
+    ['season', 'fall'],
+    ['season', 'it is autumn'],
+    ['city', 'Amsterdam'],
+    ['country', 'the Netherlands'],
+  ])('scores %s "%s" correct', (item, transcript) => {
+    expect(isCorrect(item, transcript)).toBe(true);
+  });
+
+  it.each<[OrientationItem, string]>([
+    ['year', '2025'],
+    ['year', '2025 or 2026'],
+    ['year', 'twenty twenty five twenty twenty six'],
+    ['date', 'the 18th, 19th or 20th'],
+    ['date', 'the eighteenth or the nineteenth'],
+    ['month', 'October or November'],
+    ['month', 'September, October'],
+    ['dayOfWeek', 'Sunday or Monday'],
+    ['season', 'summer or autumn'],
+    ['season', 'spring'],
+    ['city', 'Rotterdam'],
+  ])('scores %s "%s" incorrect', (item, transcript) => {
+    expect(isCorrect(item, transcript)).toBe(false);
+  });
+
+  it('reads "may" as a month only when no other month is named', () => {
+    const may = { date: new Date(2026, 4, 19) };
+
+    expect(isCorrect('month', 'May', may)).toBe(true);
+    expect(isCorrect('month', 'it may be May', may)).toBe(true);
+    expect(isCorrect('month', 'it may be October', may)).toBe(false);
+  });
+
+  it('does not read a counted list as a year', () => {
+    expect(isCorrect('year', 'twenty twenty six twenty twenty seven', { date: new Date(2026, 9, 19) })).toBe(false);
+    expect(isCorrect('year', 'twenty nineteen eighteen seventeen', { date: new Date(2019, 9, 19) })).toBe(false);
+  });
+
+  it('accepts either season at a change of season, but not both', () => {
+    const september = new Date(2026, 8, 25);
+    expect(acceptedSeasons(september)).toEqual(['autumn', 'summer']);
+    expect(isCorrect('season', 'summer', { date: september })).toBe(true);
+    expect(isCorrect('season', 'autumn', { date: september })).toBe(true);
+    expect(isCorrect('season', 'summer or autumn', { date: september })).toBe(false);
+  });
+
+  it('reverses the seasons in the southern hemisphere', () => {
+    const location = { ...context.location!, southernHemisphere: true };
+    expect(isCorrect('season', 'spring', { location })).toBe(true);
+    expect(isCorrect('season', 'autumn', { location })).toBe(false);
+  });
+});
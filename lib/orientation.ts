@@ -0,0 +1,196 @@
+/**
+ * Orientation questions: year, season, date, day of the week, month and,
+ * when a clinic location is configured, city and country.
+ *
+ * Each answer is scored 1 when it names the expected value and no other
+ * candidate, so "the 18th, 19th or 20th" scores 0. Numbers are read with the
+ * spoken-number parser, so "the nineteenth" and "19th" both answer the date;
+ * city and country names are matched like recalled words.
+ */
+
+import { LocaleBundle } from '@/lib/locales';
+import { parseSpokenNumbers } from '@/lib/spokenNumbers';
+import { matchRecalledWords, tokenize } from '@/lib/wordMatching';
+
+export type OrientationItem = 'year' | 'season' | 'date' | 'dayOfWeek' | 'month' | 'city' | 'country';
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+export interface ClinicLocation {
+  city: string;
+  country: string;
+  // Seasons are reversed in the southern hemisphere
+  southernHemisphere: boolean;
+}
+
+export interface OrientationAnswer {
+  item: OrientationItem;
+  transcript: string;
+  // What a correct answer contains, in the session language
+  expected: string;
+  correct: boolean;
+}
+
+export interface OrientationScore {
+  answers: OrientationAnswer[];
+  totalScore: number;
+  maxScore: number;
+}
+
+// Answers are checked against this moment and place
+export interface OrientationContext {
+  date: Date;
+  location: ClinicLocation | null;
+  // Code of the session language, e.g. 'en'
+  language: string;
+  vocabulary: LocaleBundle['orientation'];
+  numbers: LocaleBundle['numbers'];
+}
+
+// Items that need a configured clinic location
+const LOCATION_ITEMS: OrientationItem[] = ['city', 'country'];
+
+// Northern hemisphere season of each month, January first
+const MONTH_SEASONS: Season[] = [
+  'winter', 'winter', 'spring', 'spring', 'spring', 'summer',
+  'summer', 'summer', 'autumn', 'autumn', 'autumn', 'winter',
+];
+
+const OPPOSITE_SEASONS: Record<Season, Season> = {
+  spring: 'autumn',
+  summer: 'winter',
+  autumn: 'spring',
+  winter: 'summer',
+};
+
+/**
+ * Returns the clinic location from the environment, or null when none is configured
+ */
+export function getClinicLocation(): ClinicLocation | null {
+  const city = process.env.NEXT_PUBLIC_CLINIC_CITY?.trim() ?? '';
+  const country = process.env.NEXT_PUBLIC_CLINIC_COUNTRY?.trim() ?? '';
+  if (!city && !country) return null;
+
+  return {
+    city,
+    country,
+    southernHemisphere: process.env.NEXT_PUBLIC_CLINIC_HEMISPHERE === 'south',
+  };
+}
+
+/**
+ * Returns true when an item can be asked with the given location
+ *
+ * @param item - Orientation item
+ * @param location - Configured clinic location, if any
+ */
+export function isOrientationItemAvailable(item: OrientationItem, location: ClinicLocation | null): boolean {
+  if (!LOCATION_ITEMS.includes(item)) return true;
+  return !!location && (item === 'city' ? location.city : location.country) !== '';
+}
+
+/**
+ * Returns the seasons accepted for a date. Seasons change at the start of a
+ * month by the meteorological calendar and around the 21st by the astronomical
+ * one, so in March, June, September and December both seasons count.
+ *
+ * @param date - Date of the test
+ * @param southernHemisphere - True south of the equator
+ */
+export function acceptedSeasons(date: Date, southernHemisphere = false): Season[] {
+  const month = date.getMonth();
+  const seasons = [MONTH_SEASONS[month]];
+  if (month % 3 === 2) {
+    seasons.push(MONTH_SEASONS[(month + 11) % 12]);
+  }
+  return southernHemisphere ? seasons.map(season => OPPOSITE_SEASONS[season]) : seasons;
+}
+
+// The names said in the answer, as whole words
+function namesIn(transcript: string, names: string[]): string[] {
+  const answer = ` ${tokenize(transcript).join(' ')} `;
+  return names.filter(name => answer.includes(` ${tokenize(name).join(' ')} `));
+}
+
+// The one candidate an answer gives, or null when it gives none or several
+function singleAnswer<T>(candidates: T[]): T | null {
+  const distinct = Array.from(new Set(candidates));
+  return distinct.length === 1 ? distinct[0] : null;
+}
+
+/**
+ * Scores one orientation answer
+ *
+ * @param item - The question that was asked
+ * @param transcript - The spoken answer
+ * @param context - Date, location and vocabulary to check against
+ * @returns The scored answer
+ */
+export function scoreOrientationAnswer(
+  item: OrientationItem,
+  transcript: string,
+  context: OrientationContext
+): OrientationAnswer {
+  const { date, location, vocabulary } = context;
+  const numbers = () => parseSpokenNumbers(transcript, context.numbers);
+
+  switch (item) {
+    case 'year': {
+      // Other numbers in the answer, e.g. a date, are not years
+      const year = singleAnswer(numbers().filter(number => number >= 1000));
+      return { item, transcript, expected: String(date.getFullYear()), correct: year === date.getFullYear() };
+    }
+    case 'date': {
+      const day = singleAnswer(numbers().filter(number => number >= 1 && number <= 31));
+      return { item, transcript, expected: String(date.getDate()), correct: day === date.getDate() };
+    }
+    case 'month': {
+      const month = vocabulary.months[date.getMonth()];
+      const named = namesIn(transcript, vocabulary.months);
+      // "it may be October" names October, "it is May" names May
+      const otherNames = named.filter(name => !vocabulary.commonWordMonths?.includes(name));
+      const answer = singleAnswer(otherNames.length > 0 ? otherNames : named);
+      return { item, transcript, expected: month, correct: answer === month };
+    }
+    case 'dayOfWeek': {
+      const day = vocabulary.weekdays[date.getDay()];
+      return { item, transcript, expected: day, correct: singleAnswer(namesIn(transcript, vocabulary.weekdays)) === day };
+    }
+    case 'season': {
+      const seasons = acceptedSeasons(date, location?.southernHemisphere);
+      const named = (Object.keys(vocabulary.seasons) as Season[])
+        .filter(season => namesIn(transcript, vocabulary.seasons[season]).length > 0);
+      const season = singleAnswer(named);
+      return {
+        item,
+        transcript,
+        expected: seasons.map(season => vocabulary.seasons[season][0]).join(' / '),
+        correct: season !== null && seasons.includes(season),
+      };
+    }
+    case 'city':
+    case 'country': {
+      const expected = (item === 'city' ? location?.city : location?.country) ?? '';
+      return {
+        item,
+        transcript,
+        expected,
+        correct: expected !== '' && matchRecalledWords([expected], transcript, context.language).score > 0,
+      };
+    }
+  }
+}
+
+/**
+ * Totals scored orientation answers
+ *
+ * @param answers - One answer per question asked
+ * @returns The orientation score
+ */
+export function scoreOrientation(answers: OrientationAnswer[]): OrientationScore {
+  return {
+    answers,
+    totalScore: answers.filter(answer => answer.correct).length,
+    maxScore: answers.length,
+  };
+}
@@ -0,0 +1,380 @@
+/**
+ * State-machine runner for declarative test protocols.
+ *
+ * protocolReducer holds the state transitions and has no side effects;
+ * runProtocol executes the steps through an injected environment, so a
+ * protocol can run against real speech I/O or against fakes.
+ */
+
+import { Protocol, ProtocolStep, ProtocolSession, ListenStep, TaskStep, FluencyStep } from '@/lib/protocols';
+import { PROTOCOL_SCORERS, ProtocolScore } from '@/lib/protocolScorers';
+import { listenWithAttempts, ResponseAttempt } from '@/lib/responseAttempts';
+import { matchRecalledWords } from '@/lib/wordMatching';
+import { scoreFluency, TranscriptSegment } from '@/lib/fluency';
+import { isOrientationItemAvailable, scoreOrientation, scoreOrientationAnswer, OrientationAnswer } from '@/lib/orientation';
+import { scoreInterference } from '@/lib/interference';
+import { generateDigitSequence, nextDigitSpanLength, scoreDigitSpan, scoreDigitSpanTrial, DigitSpanTrial } from '@/lib/digitSpan';
+import { abortError, delay, isAbortError } from '@/lib/testSession';
+
+export type ProtocolStatus = 'idle' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ProtocolState {
+  status: ProtocolStatus;
+  stepIndex: number;
+  // Screen of the current step, carried over from earlier steps when a step has none
+  phase: string | null;
+  // Index of the word being presented by a present-words step or cued by a cued-recall step
+  currentWordIndex: number | null;
+  // Task waiting for the user, if any
+  activeTask: string | null;
+  responses: Record<string, string>;
+  // Every listening attempt, in order
+  attempts: ResponseAttempt[];
+  taskResults: Record<string, unknown>;
+  score: ProtocolScore | null;
+  error: string | null;
+}
+
+export type ProtocolEvent =
+  | { type: 'start' }
+  | { type: 'stepStarted'; stepIndex: number; step: ProtocolStep }
+  | { type: 'wordPresented'; wordIndex: number }
+  | { type: 'wordCued'; wordIndex: number }
+  | { type: 'taskCompleted'; task: string; result: unknown }
+  | { type: 'attemptRecorded'; attempt: ResponseAttempt }
+  | { type: 'responseRecorded'; id: string; transcript: string }
+  | { type: 'scored'; score: ProtocolScore }
+  | { type: 'completed' }
+  | { type: 'failed'; error: string }
+  | { type: 'cancelled' };
+
+/**
+ * Side effects the runner needs from its host
+ */
+export interface ProtocolEnvironment {
+  speak(text: string): Promise<void>;
+  // Resolves with the transcript of the response
+  listen(step: ListenStep): Promise<string>;
+  // Resolves when the user has finished the task on screen
+  runTask(step: TaskStep): Promise<unknown>;
+  // Listens for the whole duration of the step and resolves with the timed final results
+  listenTimed(step: FluencyStep): Promise<TranscriptSegment[]>;
+  // Defaults to a timer
+  wait?(durationMs: number): Promise<void>;
+  // Cancels the run; the handlers above should stop their speech, timers and listening on it too
+  signal?: AbortSignal;
+}
+
+/**
+ * Returns the state of a protocol that has not started
+ */
+export function initialProtocolState(): ProtocolState {
+  return {
+    status: 'idle',
+    stepIndex: -1,
+    phase: null,
+    currentWordIndex: null,
+    activeTask: null,
+    responses: {},
+    attempts: [],
+    taskResults: {},
+    score: null,
+    error: null,
+  };
+}
+
+/**
+ * Applies an event to the protocol state
+ *
+ * @param state - Current state
+ * @param event - Event to apply
+ * @returns The next state
+ * @throws Error when the event is not allowed in the current status
+ */
+export function protocolReducer(state: ProtocolState, event: ProtocolEvent): ProtocolState {
+  if (event.type === 'start') {
+    if (state.status === 'running') {
+      throw new Error('Protocol is already running');
+    }
+    return { ...initialProtocolState(), status: 'running' };
+  }
+
+  if (state.status !== 'running') {
+    throw new Error(`Protocol event "${event.type}" is not allowed while ${state.status}`);
+  }
+
+  switch (event.type) {
+    case 'stepStarted':
+      return {
+        ...state,
+        stepIndex: event.stepIndex,
+        phase: event.step.phase ?? state.phase,
+        currentWordIndex: null,
+        activeTask: event.step.type === 'task' ? event.step.task : null,
+      };
+    case 'wordPresented':
+    case 'wordCued':
+      return { ...state, currentWordIndex: event.wordIndex };
+    case 'taskCompleted':
+      return {
+        ...state,
+        activeTask: null,
+        taskResults: { ...state.taskResults, [event.task]: event.result },
+      };
+    case 'attemptRecorded':
+      return { ...state, attempts: [...state.attempts, event.attempt] };
+    case 'responseRecorded':
+      return { ...state, responses: { ...state.responses, [event.id]: event.transcript } };
+    case 'scored':
+      return { ...state, score: event.score };
+    case 'completed':
+      return { ...state, status: 'completed', activeTask: null, currentWordIndex: null };
+    case 'failed':
+      return { ...state, status: 'failed', error: event.error };
+    case 'cancelled':
+      return { ...state, status: 'cancelled', activeTask: null, currentWordIndex: null };
+  }
+}
+
+function resolvePrompt(session: ProtocolSession, key: string): string {
+  const prompt = session.prompts[key];
+  if (prompt === undefined) {
+    throw new Error(`Unknown prompt: ${key}`);
+  }
+  return prompt;
+}
+
+/**
+ * Runs a protocol from the first step to the last
+ *
+ * @param protocol - The protocol to run
+ * @param session - Word list and prompts of this session
+ * @param environment - Speech, listening and task handlers
+ * @param onStateChange - Called with every new state
+ * @returns Promise with the final state; a failed run resolves with status 'failed', a cancelled one with 'cancelled'
+ */
+export async function runProtocol(
+  protocol: Protocol,
+  session: ProtocolSession,
+  environment: ProtocolEnvironment,
+  onStateChange?: (state: ProtocolState) => void
+): Promise<ProtocolState> {
+  let state = initialProtocolState();
+  const { signal } = environment;
+  const wait = environment.wait ?? ((durationMs: number) => delay(durationMs, signal));
+
+  const dispatch = (event: ProtocolEvent) => {
+    state = protocolReducer(state, event);
+    onStateChange?.(state);
+  };
+
+  // Listen under the step's attempt policy and record the response
+  const listen = async (step: ListenStep) => {
+    const { response } = await listenWithAttempts(
+      step.id,
+      () => environment.listen(step),
+      text => environment.speak(text),
+      {
+        maxReprompts: step.maxReprompts ?? 0,
+        repromptText: step.repromptPrompt ? resolvePrompt(session, step.repromptPrompt) : '',
+        giveUpPhrases: session.giveUpPhrases ?? [],
+      },
+      attempt => dispatch({ type: 'attemptRecorded', attempt })
+    );
+    dispatch({ type: 'responseRecorded', id: step.id, transcript: response });
+  };
+
+  dispatch({ type: 'start' });
+
+  try {
+    for (let stepIndex = 0; stepIndex < protocol.steps.length; stepIndex++) {
+      if (signal?.aborted) throw abortError();
+      const step = protocol.steps[stepIndex];
+      dispatch({ type: 'stepStarted', stepIndex, step });
+
+      switch (step.type) {
+        case 'speak':
+          await environment.speak(step.text ?? resolvePrompt(session, step.prompt!));
+          break;
+
+        case 'present-words':
+          for (let wordIndex = 0; wordIndex < session.words.length; wordIndex++) {
+            dispatch({ type: 'wordPresented', wordIndex });
+            await environment.speak(session.words[wordIndex]);
+            await wait(step.pauseMs);
+          }
+          break;
+
+        case 'wait':
+          await wait(step.durationMs);
+          break;
+
+        case 'task': {
+          // The task is on screen while its prompt is spoken
+          const [result] = await Promise.all([
+            environment.runTask(step),
+            step.prompt ? environment.speak(resolvePrompt(session, step.prompt)) : undefined,
+          ]);
+          dispatch({ type: 'taskCompleted', task: step.task, result });
+          break;
+        }
+
+        case 'listen':
+          await listen(step);
+          break;
+
+        case 'cued-recall': {
+          const freeRecall = matchRecalledWords(session.words, state.responses[step.freeRecallId] ?? '', session.language);
+          const missedWords = freeRecall.matches.filter(match => match.matchType === 'missed').map(match => match.word);
+
+          for (const word of missedWords) {
+            const category = session.categories?.[word];
+            if (!category) {
+              throw new Error(`No category for cued word: ${word}`);
+            }
+
+            dispatch({ type: 'wordCued', wordIndex: session.words.indexOf(word) });
+            await environment.speak(resolvePrompt(session, step.cuePrompt).replace('{category}', category));
+            await listen({
+              type: 'listen',
+              id: `${step.id}.${word}`,
+              silenceTimeoutMs: step.silenceTimeoutMs,
+              maxResponseMs: step.maxResponseMs,
+              maxReprompts: step.maxReprompts,
+              repromptPrompt: step.repromptPrompt,
+            });
+          }
+          break;
+        }
+
+        case 'fluency': {
+          if (!session.lexicon) {
+            throw new Error('Fluency step without a lexicon');
+          }
+          const segments = await environment.listenTimed(step);
+          dispatch({ type: 'responseRecorded', id: step.id, transcript: segments.map(segment => segment.text).join(' ') });
+          dispatch({
+            type: 'taskCompleted',
+            task: step.id,
+            result: scoreFluency(segments, session.lexicon, session.language, step.category, step.durationMs, step.binMs),
+          });
+          break;
+        }
+
+        case 'orientation': {
+          const context = session.orientation;
+          if (!context) {
+            throw new Error('Orientation step without an orientation context');
+          }
+
+          const answers: OrientationAnswer[] = [];
+          for (const question of step.questions) {
+            if (!isOrientationItemAvailable(question.item, context.location)) continue;
+
+            const id = `${step.id}.${question.item}`;
+            await environment.speak(resolvePrompt(session, question.prompt));
+            await listen({
+              type: 'listen',
+              id,
+              silenceTimeoutMs: step.silenceTimeoutMs,
+              maxResponseMs: step.maxResponseMs,
+              maxReprompts: step.maxReprompts,
+              repromptPrompt: step.repromptPrompt,
+            });
+            answers.push(scoreOrientationAnswer(question.item, state.responses[id], context));
+          }
+          dispatch({ type: 'taskCompleted', task: step.id, result: scoreOrientation(answers) });
+          break;
+        }
+
+        case 'interference': {
+          const context = session.interference;
+          if (!context) {
+            throw new Error('Interference step without an interference vocabulary');
+          }
+
+          const startedAt = Date.now();
+          const task = context.task ?? step.task;
+          await environment.speak(resolvePrompt(session, task).replace('{word}', context.vocabulary.spellWord));
+          await listen({
+            type: 'listen',
+            id: step.id,
+            silenceTimeoutMs: step.silenceTimeoutMs,
+            maxResponseMs: step.maxResponseMs,
+            maxReprompts: step.maxReprompts,
+            repromptPrompt: step.repromptPrompt,
+          });
+          dispatch({
+            type: 'taskCompleted',
+            task: step.id,
+            result: scoreInterference(task, state.responses[step.id], context.vocabulary),
+          });
+          // Recall never comes sooner than the minimum delay
+          await wait(Math.max(0, step.minDurationMs - (Date.now() - startedAt)));
+          break;
+        }
+
+        case 'digit-span': {
+          if (!session.numbers) {
+            throw new Error('Digit span step without number words');
+          }
+
+          const trials: DigitSpanTrial[] = [];
+          let length = nextDigitSpanLength(trials, step.startLength, step.maxLength);
+          while (length !== null) {
+            const digits = generateDigitSequence(length);
+            // One digit per interval, however long each takes to say
+            for (const digit of digits) {
+              const digitStartedAt = Date.now();
+              await environment.speak(String(digit));
+              await wait(Math.max(0, step.digitIntervalMs - (Date.now() - digitStartedAt)));
+            }
+
+            const id = `${step.id}.${trials.length + 1}`;
+            await listen({
+              type: 'listen',
+              id,
+              silenceTimeoutMs: step.silenceTimeoutMs,
+              maxResponseMs: step.maxResponseMs,
+              maxReprompts: step.maxReprompts,
+              repromptPrompt: step.repromptPrompt,
+            });
+            trials.push(scoreDigitSpanTrial(step.direction, digits, state.responses[id], session.numbers));
+            length = nextDigitSpanLength(trials, step.startLength, step.maxLength);
+          }
+          dispatch({ type: 'taskCompleted', task: step.id, result: scoreDigitSpan(step.direction, trials, step.maxLength) });
+          break;
+        }
+
+        case 'score': {
+          const scorer = PROTOCOL_SCORERS[step.scorer];
+          if (!scorer) {
+            throw new Error(`Unknown scorer: ${step.scorer}`);
+          }
+          dispatch({
+            type: 'scored',
+            score: scorer({
+              language: session.language,
+              words: session.words,
+              categories: session.categories ?? {},
+              responses: state.responses,
+              taskResults: state.taskResults,
+            }),
+          });
+          break;
+        }
+      }
+    }
+
+    dispatch({ type: 'completed' });
+  } catch (error) {
+    if (isAbortError(error)) {
+      dispatch({ type: 'cancelled' });
+    } else {
+      console.error(`Protocol ${protocol.id} failed:`, error);
+      dispatch({ type: 'failed', error: String(error) });
+    }
+  }
+
+  return state;
+}
@@ -0,0 +1,106 @@
+/**
+ * Scorers that protocol score steps refer to by name
+ */
+
+import { scoreMiniCog, ClockScore, MiniCogScore } from '@/lib/miniCog';
+import { scoreMis, MisScore } from '@/lib/mis';
+import { matchRecalledWords, RecallMatchReport } from '@/lib/wordMatching';
+import { OrientationScore } from '@/lib/orientation';
+import { DigitSpanScore } from '@/lib/digitSpan';
+
+export interface ProtocolScore {
+  totalScore: number;
+  maxScore: number;
+}
+
+export interface ScorerInput {
+  // Code of the session language, e.g. 'en'
+  language: string;
+  words: string[];
+  // Category of each word, for cued recall
+  categories: Record<string, string>;
+  // Transcripts by listen step id
+  responses: Record<string, string>;
+  // Results by task name
+  taskResults: Record<string, unknown>;
+}
+
+export type ProtocolScorer = (input: ScorerInput) => ProtocolScore;
+
+// Result of the clockDrawing task
+export interface ClockDrawingResult {
+  clockScore: ClockScore;
+  // PNG data URL of the drawing, null when it was drawn on paper
+  drawing: string | null;
+}
+
+export interface MiniCogProtocolScore extends MiniCogScore {
+  matchReport: RecallMatchReport;
+}
+
+const scoreMiniCogProtocol = ({ language, words, responses, taskResults }: ScorerInput): MiniCogProtocolScore => {
+  const matchReport = matchRecalledWords(words, responses.recall ?? '', language);
+  const clock = taskResults.clockDrawing as ClockDrawingResult | undefined;
+  return { ...scoreMiniCog(matchReport.score, clock?.clockScore ?? 0), matchReport };
+};
+
+// A word missed in free recall and the answer to its category cue
+export interface CuedRecallItem {
+  word: string;
+  category: string;
+  transcript: string;
+  recalled: boolean;
+}
+
+export interface MisProtocolScore extends MisScore {
+  matchReport: RecallMatchReport;
+  cuedItems: CuedRecallItem[];
+}
+
+const scoreMisProtocol = ({ language, words, categories, responses }: ScorerInput): MisProtocolScore => {
+  const matchReport = matchRecalledWords(words, responses.recall ?? '', language);
+  const cuedItems = matchReport.matches
+    .filter(match => match.matchType === 'missed')
+    .map(({ word }) => {
+      const transcript = responses[`cuedRecall.${word}`] ?? '';
+      return {
+        word,
+        category: categories[word] ?? '',
+        transcript,
+        recalled: matchRecalledWords([word], transcript, language).score > 0,
+      };
+    });
+  const cuedRecall = cuedItems.filter(item => item.recalled).length;
+
+  return { ...scoreMis(matchReport.score, cuedRecall, words.length), matchReport, cuedItems };
+};
+
+// The orientation step has already scored the answers
+const scoreOrientationProtocol = ({ taskResults }: ScorerInput): ProtocolScore => {
+  const orientation = taskResults.orientation as OrientationScore | undefined;
+  return { totalScore: orientation?.totalScore ?? 0, maxScore: orientation?.maxScore ?? 0 };
+};
+
+export interface DigitSpanProtocolScore extends ProtocolScore {
+  forward: DigitSpanScore | null;
+  backward: DigitSpanScore | null;
+}
+
+// The sum of the forward and backward spans
+const scoreDigitSpanProtocol = ({ taskResults }: ScorerInput): DigitSpanProtocolScore => {
+  const forward = (taskResults.digitSpanForward as DigitSpanScore | undefined) ?? null;
+  const backward = (taskResults.digitSpanBackward as DigitSpanScore | undefined) ?? null;
+  return {
+    totalScore: (forward?.longestSpan ?? 0) + (backward?.longestSpan ?? 0),
+    maxScore: (forward?.maxLength ?? 0) + (backward?.maxLength ?? 0),
+    forward,
+    backward,
+  };
+};
+
+export const PROTOCOL_SCORERS: Record<string, ProtocolScorer> = {
+  miniCog: scoreMiniCogProtocol,
+  mis: scoreMisProtocol,
+  orientation: scoreOrientationProtocol,
+  digitSpan: scoreDigitSpanProtocol,
+};
@@ -0,0 +1,222 @@
+/**
+ * Test protocols defined as JSON, validated when loaded
+ */
+
+import { Protocol, ProtocolStep } from './types';
+import { INTERFERENCE_TASKS, InterferenceTask } from '@/lib/interference';
+import miniCog from './miniCog.json';
+import mis from './mis.json';
+import orientation from './orientation.json';
+import digitSpan from './digitSpan.json';
+import fluency from './fluency.json';
+
+export type {
+  Protocol,
+  ProtocolStep,
+  ProtocolStepType,
+  SpeakStep,
+  PresentWordsStep,
+  WaitStep,
+  TaskStep,
+  ListenStep,
+  CuedRecallStep,
+  FluencyStep,
+  OrientationStep,
+  InterferenceStep,
+  DigitSpanStep,
+  ScoreStep,
+  ProtocolSession,
+} from './types';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const ORIENTATION_ITEMS = ['year', 'season', 'date', 'dayOfWeek', 'month', 'city', 'country'];
+
+const DIGIT_SPAN_DIRECTIONS = ['forward', 'backward'];
+
+function requireString(step: Record<string, unknown>, field: string, where: string): void {
+  if (typeof step[field] !== 'string' || step[field] === '') {
+    throw new Error(`${where}: "${field}" must be a non-empty string`);
+  }
+}
+
+function requireLength(step: Record<string, unknown>, field: string, where: string): void {
+  if (!Number.isInteger(step[field]) || (step[field] as number) < 1) {
+    throw new Error(`${where}: "${field}" must be a positive integer`);
+  }
+}
+
+function requireDuration(step: Record<string, unknown>, field: string, where: string): void {
+  const value = step[field];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`${where}: "${field}" must be a non-negative number of milliseconds`);
+  }
+}
+
+// Timing and attempt policy shared by listen and cued-recall steps
+function checkListenOptions(step: Record<string, unknown>, where: string): void {
+  if (step.silenceTimeoutMs !== undefined) requireDuration(step, 'silenceTimeoutMs', where);
+  if (step.maxResponseMs !== undefined) requireDuration(step, 'maxResponseMs', where);
+  if (step.maxReprompts !== undefined && !(Number.isInteger(step.maxReprompts) && (step.maxReprompts as number) >= 0)) {
+    throw new Error(`${where}: "maxReprompts" must be a non-negative integer`);
+  }
+  if (step.maxReprompts && step.repromptPrompt === undefined) {
+    throw new Error(`${where}: "repromptPrompt" is required with "maxReprompts"`);
+  }
+  if (step.repromptPrompt !== undefined) requireString(step, 'repromptPrompt', where);
+}
+
+function parseStep(value: unknown, where: string): ProtocolStep {
+  if (!isRecord(value)) {
+    throw new Error(`${where}: step must be an object`);
+  }
+  if (value.phase !== undefined) {
+    requireString(value, 'phase', where);
+  }
+
+  switch (value.type) {
+    case 'speak':
+      if (value.prompt === undefined) {
+        requireString(value, 'text', where);
+      } else {
+        requireString(value, 'prompt', where);
+      }
+      break;
+    case 'present-words':
+      requireDuration(value, 'pauseMs', where);
+      break;
+    case 'wait':
+      requireDuration(value, 'durationMs', where);
+      break;
+    case 'task':
+      requireString(value, 'task', where);
+      if (value.prompt !== undefined) requireString(value, 'prompt', where);
+      break;
+    case 'listen':
+      requireString(value, 'id', where);
+      checkListenOptions(value, where);
+      break;
+    case 'cued-recall':
+      requireString(value, 'id', where);
+      requireString(value, 'freeRecallId', where);
+      requireString(value, 'cuePrompt', where);
+      checkListenOptions(value, where);
+      break;
+    case 'fluency':
+      requireString(value, 'id', where);
+      requireString(value, 'category', where);
+      requireDuration(value, 'durationMs', where);
+      requireDuration(value, 'binMs', where);
+      if (value.binMs === 0) {
+        throw new Error(`${where}: "binMs" must be greater than zero`);
+      }
+      break;
+    case 'orientation':
+      requireString(value, 'id', where);
+      if (!Array.isArray(value.questions) || value.questions.length === 0) {
+        throw new Error(`${where}: "questions" must be a non-empty array`);
+      }
+      value.questions.forEach((question: unknown, index) => {
+        const questionWhere = `${where}, question ${index + 1}`;
+        if (!isRecord(question) || !ORIENTATION_ITEMS.includes(question.item as string)) {
+          throw new Error(`${questionWhere}: "item" must be one of ${ORIENTATION_ITEMS.join(', ')}`);
+        }
+        requireString(question, 'prompt', questionWhere);
+      });
+      checkListenOptions(value, where);
+      break;
+    case 'interference':
+      requireString(value, 'id', where);
+      if (!INTERFERENCE_TASKS.includes(value.task as InterferenceTask)) {
+        throw new Error(`${where}: "task" must be one of ${INTERFERENCE_TASKS.join(', ')}`);
+      }
+      requireDuration(value, 'minDurationMs', where);
+      checkListenOptions(value, where);
+      break;
+    case 'digit-span':
+      requireString(value, 'id', where);
+      if (!DIGIT_SPAN_DIRECTIONS.includes(value.direction as string)) {
+        throw new Error(`${where}: "direction" must be one of ${DIGIT_SPAN_DIRECTIONS.join(', ')}`);
+      }
+      requireLength(value, 'startLength', where);
+      requireLength(value, 'maxLength', where);
+      if ((value.maxLength as number) < (value.startLength as number)) {
+        throw new Error(`${where}: "maxLength" must not be less than "startLength"`);
+      }
+      requireDuration(value, 'digitIntervalMs', where);
+      checkListenOptions(value, where);
+      break;
+    case 'score':
+      requireString(value, 'scorer', where);
+      break;
+    default:
+      throw new Error(`${where}: unknown step type "${String(value.type)}"`);
+  }
+
+  return value as unknown as ProtocolStep;
+}
+
+/**
+ * Validates a protocol definition
+ *
+ * @param definition - Parsed JSON protocol
+ * @returns The protocol
+ * @throws Error describing the first invalid field
+ */
+export function parseProtocol(definition: unknown): Protocol {
+  if (!isRecord(definition)) {
+    throw new Error('Protocol must be an object');
+  }
+  if (typeof definition.id !== 'string' || definition.id === '') {
+    throw new Error('Protocol: "id" must be a non-empty string');
+  }
+  if (!Array.isArray(definition.steps) || definition.steps.length === 0) {
+    throw new Error(`Protocol ${definition.id}: "steps" must be a non-empty array`);
+  }
+
+  return {
+    id: definition.id,
+    steps: definition.steps.map((step, index) => parseStep(step, `Protocol ${definition.id}, step ${index + 1}`)),
+  };
+}
+
+/**
+ * Puts the orientation questions in front of another protocol; the orientation
+ * score is kept as a task result next to the score of the protocol
+ *
+ * @param protocol - Protocol to run after the orientation questions
+ * @returns The combined protocol
+ */
+export function withOrientationPrefix(protocol: Protocol): Protocol {
+  return {
+    id: `${ORIENTATION_PROTOCOL.id}+${protocol.id}`,
+    steps: [...ORIENTATION_PROTOCOL.steps.filter(step => step.type !== 'score'), ...protocol.steps],
+  };
+}
+
+/**
+ * Adds the animal naming task to the end of another protocol, before it is
+ * scored; the fluency score is kept as a task result next to the score of the
+ * protocol
+ *
+ * @param protocol - Protocol to run before the animal naming task
+ * @returns The combined protocol
+ */
+export function withFluencySuffix(protocol: Protocol): Protocol {
+  return {
+    id: `${protocol.id}+${FLUENCY_PROTOCOL.id}`,
+    steps: [
+      ...protocol.steps.filter(step => step.type !== 'score'),
+      ...FLUENCY_PROTOCOL.steps,
+      ...protocol.steps.filter(step => step.type === 'score'),
+    ],
+  };
+}
+
+export const MINI_COG_PROTOCOL = parseProtocol(miniCog);
+export const MIS_PROTOCOL = parseProtocol(mis);
+export const ORIENTATION_PROTOCOL = parseProtocol(orientation);
+export const DIGIT_SPAN_PROTOCOL = parseProtocol(digitSpan);
+export const FLUENCY_PROTOCOL = parseProtocol(fluency);
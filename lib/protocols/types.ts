@@ -0,0 +1,176 @@
+/**
+ * Shape of a declarative test protocol: an ordered list of steps with their timing
+ */
+
+import { Lexicon } from '@/lib/lexicons';
+import { OrientationItem, OrientationContext } from '@/lib/orientation';
+import { InterferenceTask, InterferenceVocabulary } from '@/lib/interference';
+import { DigitSpanDirection } from '@/lib/digitSpan';
+import { NumberLexicon } from '@/lib/spokenNumbers';
+
+interface StepBase {
+  // Screen the test shows from this step on; steps without a phase keep the previous one
+  phase?: string;
+}
+
+// Say a localized prompt (by key) or a literal text
+export interface SpeakStep extends StepBase {
+  type: 'speak';
+  prompt?: string;
+  text?: string;
+}
+
+// Say the session's word list, one word at a time
+export interface PresentWordsStep extends StepBase {
+  type: 'present-words';
+  // Silence after each word
+  pauseMs: number;
+}
+
+export interface WaitStep extends StepBase {
+  type: 'wait';
+  durationMs: number;
+}
+
+// Hand control to an interactive task on screen, e.g. the clock drawing
+export interface TaskStep extends StepBase {
+  type: 'task';
+  task: string;
+  // Prompt key spoken while the task is already on screen
+  prompt?: string;
+}
+
+// Capture a spoken response under the given id
+export interface ListenStep extends StepBase {
+  type: 'listen';
+  id: string;
+  // Silence after the last recognized speech that ends the response
+  silenceTimeoutMs?: number;
+  // Longest the response may take
+  maxResponseMs?: number;
+  // Voice re-prompts after silence or a recognition error (default none)
+  maxReprompts?: number;
+  // Prompt key of the re-prompt
+  repromptPrompt?: string;
+}
+
+// Cue each word missed in an earlier free recall with its category and listen again.
+// The response to a cue is stored as `${id}.${word}`.
+export interface CuedRecallStep extends StepBase {
+  type: 'cued-recall';
+  id: string;
+  // Listen step id of the free recall
+  freeRecallId: string;
+  // Prompt key of the cue, with a {category} placeholder
+  cuePrompt: string;
+  silenceTimeoutMs?: number;
+  maxResponseMs?: number;
+  maxReprompts?: number;
+  repromptPrompt?: string;
+}
+
+// Listen for a fixed time while the user names words of a category; the
+// fluency score is stored as the task result under id
+export interface FluencyStep extends StepBase {
+  type: 'fluency';
+  id: string;
+  // Lexicon category, e.g. 'animals'
+  category: string;
+  durationMs: number;
+  // Length of the time bins of the report
+  binMs: number;
+}
+
+// Ask orientation questions one by one; the answer to each is stored as
+// `${id}.${item}` and the orientation score as the task result under id.
+// Questions that need an unconfigured clinic location are skipped.
+export interface OrientationStep extends StepBase {
+  type: 'orientation';
+  id: string;
+  questions: { item: OrientationItem; prompt: string }[];
+  silenceTimeoutMs?: number;
+  maxResponseMs?: number;
+  maxReprompts?: number;
+  repromptPrompt?: string;
+}
+
+// Give an interference task before recall: its prompt (the prompt key is the
+// task name) is spoken, the answer is stored under id and the task score as the
+// task result under id. The step lasts at least minDurationMs, however quickly
+// the answer comes.
+export interface InterferenceStep extends StepBase {
+  type: 'interference';
+  id: string;
+  // Default task; the session may choose another
+  task: InterferenceTask;
+  minDurationMs: number;
+  silenceTimeoutMs?: number;
+  maxResponseMs?: number;
+  maxReprompts?: number;
+  repromptPrompt?: string;
+}
+
+// Speak digit sequences of increasing length and listen for each repetition;
+// the answer to trial n is stored as `${id}.${n}` and the digit span score as
+// the task result under id
+export interface DigitSpanStep extends StepBase {
+  type: 'digit-span';
+  id: string;
+  direction: DigitSpanDirection;
+  startLength: number;
+  maxLength: number;
+  // Time from the start of one digit to the start of the next
+  digitIntervalMs: number;
+  silenceTimeoutMs?: number;
+  maxResponseMs?: number;
+  maxReprompts?: number;
+  repromptPrompt?: string;
+}
+
+// Score the session with a named scorer
+export interface ScoreStep extends StepBase {
+  type: 'score';
+  scorer: string;
+}
+
+export type ProtocolStep =
+  | SpeakStep
+  | PresentWordsStep
+  | WaitStep
+  | TaskStep
+  | ListenStep
+  | CuedRecallStep
+  | FluencyStep
+  | OrientationStep
+  | InterferenceStep
+  | DigitSpanStep
+  | ScoreStep;
+
+export type ProtocolStepType = ProtocolStep['type'];
+
+export interface Protocol {
+  id: string;
+  steps: ProtocolStep[];
+}
+
+// Per-session input of a protocol run
+export interface ProtocolSession {
+  // Code of the session language, e.g. 'en', for matching answers
+  language: string;
+  // Word list presented by present-words steps
+  words: string[];
+  // Localized prompts by key
+  prompts: Record<string, string>;
+  // Phrases that count as giving up on a response
+  giveUpPhrases?: string[];
+  // Category of each word, for cued-recall steps
+  categories?: Record<string, string>;
+  // Word lists of the session language, for fluency steps
+  lexicon?: Lexicon;
+  // Date, place and vocabulary for orientation steps
+  orientation?: OrientationContext;
+  // Task choice and vocabulary for interference steps
+  interference?: { task?: InterferenceTask; vocabulary: InterferenceVocabulary };
+  // Number words of the session language, for digit-span steps
+  numbers?: NumberLexicon;
+}
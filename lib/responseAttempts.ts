@@ -0,0 +1,135 @@
+/**
+ * Attempt policy for spoken responses.
+ *
+ * Silence is re-prompted by voice a limited number of times, a give-up phrase
+ * such as "I don't know" counts as an explicit empty answer, and every attempt
+ * is logged with its outcome so the session record shows how the answer came about.
+ */
+
+import { isAbortError } from '@/lib/testSession';
+
+export type ResponseAttemptOutcome = 'response' | 'noSpeech' | 'gaveUp' | 'error';
+
+export interface ResponseAttempt {
+  // Id of the response, e.g. 'recall'
+  id: string;
+  attempt: number;
+  outcome: ResponseAttemptOutcome;
+  transcript: string;
+  // ISO 8601 time the attempt ended
+  timestamp: string;
+  error?: string;
+}
+
+export interface AttemptPolicy {
+  // Voice re-prompts after silence or a recognition error
+  maxReprompts: number;
+  repromptText: string;
+  giveUpPhrases: string[];
+}
+
+export interface AttemptedResponse {
+  // Transcript to score; empty when the user gave up or stayed silent
+  response: string;
+  outcome: ResponseAttemptOutcome;
+  attempts: ResponseAttempt[];
+}
+
+// Hesitation sounds that may surround a give-up phrase
+const FILLER_WORDS = new Set(['um', 'uh', 'uhm', 'hm', 'hmm', 'eh', 'ehm', 'euh', 'äh', 'ähm', 'sorry']);
+
+function normalizePhrase(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .replace(/[^\p{L}\p{N}' ]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Returns true when a transcript consists only of give-up phrases,
+ * so "I don't know" is a give-up but "apple, I don't know the rest" is not
+ *
+ * @param transcript - Recognized response
+ * @param giveUpPhrases - Phrases of the session language
+ */
+export function isGiveUp(transcript: string, giveUpPhrases: string[]): boolean {
+  let remaining = ` ${normalizePhrase(transcript)} `;
+  if (remaining.trim() === '') return false;
+
+  // Longest phrases first, so "i don't know" is removed before "don't know"
+  const phrases = giveUpPhrases.map(normalizePhrase).filter(Boolean).sort((a, b) => b.length - a.length);
+  let matched = false;
+  for (const phrase of phrases) {
+    while (remaining.includes(` ${phrase} `)) {
+      remaining = remaining.replace(` ${phrase} `, ' ');
+      matched = true;
+    }
+  }
+
+  return matched && remaining.trim().split(' ').every(word => word === '' || FILLER_WORDS.has(word));
+}
+
+/**
+ * Listens for a response under an attempt policy
+ *
+ * @param id - Id of the response for the attempt log
+ * @param listen - Listens once and resolves with the transcript
+ * @param speak - Speaks a re-prompt
+ * @param policy - Re-prompt limit, re-prompt text and give-up phrases
+ * @param onAttempt - Called after every attempt
+ * @returns Promise with the response to score and the attempt log
+ * @throws The last recognition error when no attempt succeeded
+ * @throws AbortError when the session is cancelled
+ */
+export async function listenWithAttempts(
+  id: string,
+  listen: () => Promise<string>,
+  speak: (text: string) => Promise<void>,
+  policy: AttemptPolicy,
+  onAttempt?: (attempt: ResponseAttempt) => void
+): Promise<AttemptedResponse> {
+  const attempts: ResponseAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    let transcript = '';
+    let outcome: ResponseAttemptOutcome;
+    let failure: unknown = null;
+
+    try {
+      transcript = (await listen()).trim();
+      outcome = transcript === ''
+        ? 'noSpeech'
+        : isGiveUp(transcript, policy.giveUpPhrases) ? 'gaveUp' : 'response';
+    } catch (error) {
+      // A cancelled session is not an attempt
+      if (isAbortError(error)) throw error;
+      failure = error;
+      outcome = 'error';
+    }
+
+    const entry: ResponseAttempt = {
+      id,
+      attempt,
+      outcome,
+      transcript,
+      timestamp: new Date().toISOString(),
+      ...(failure !== null && { error: String(failure) }),
+    };
+    attempts.push(entry);
+    onAttempt?.(entry);
+
+    if (outcome === 'response' || outcome === 'gaveUp') {
+      return { response: outcome === 'response' ? transcript : '', outcome, attempts };
+    }
+
+    if (attempt > policy.maxReprompts) {
+      // A recognition error is not an answer from the patient, so it fails the step
+      if (outcome === 'error') throw failure;
+      return { response: '', outcome, attempts };
+    }
+
+    await speak(policy.repromptText);
+  }
+}
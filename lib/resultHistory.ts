@@ -0,0 +1,117 @@
+/**
+ * Local history of completed test sessions, stored in IndexedDB
+ */
+
+import { openDatabase, requestToPromise } from '@/lib/indexedDb';
+import { SpeechTimingMetrics } from '@/lib/speechTiming';
+import { RecallMatchReport } from '@/lib/wordMatching';
+import { ResponseAttempt } from '@/lib/responseAttempts';
+import { TestMode, AnswerModality } from '@/lib/testModes';
+import { FluencyScore } from '@/lib/fluency';
+import { OrientationScore } from '@/lib/orientation';
+import { InterferenceScore } from '@/lib/interference';
+import { DigitSpanScore } from '@/lib/digitSpan';
+import { AudioCalibrationResult } from '@/lib/audioCalibration';
+
+const DB_NAME = 'alzheimers-voice-test-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'results';
+
+// One answered test item, e.g. a recall response or a sub-score
+export interface TestItemResult {
+  linkId: string;
+  text: string;
+  answer: string | number | boolean;
+}
+
+export interface TestResult {
+  testMode: TestMode;
+  locale: string;
+  score: number;
+  maxScore: number;
+  answers: string[];
+  // Word matches of each recall answer, in the order of answers
+  matchReports: RecallMatchReport[];
+  // Listening attempts behind the answers, including re-prompts and give-ups
+  attempts: ResponseAttempt[];
+  wordList: string[];
+  items: TestItemResult[];
+  // Animal naming task; absent in sessions without one
+  fluency?: FluencyScore | null;
+  // Orientation questions; absent in sessions without them
+  orientation?: OrientationScore | null;
+  // Task before recall; absent in sessions without one
+  interference?: InterferenceScore | null;
+  // Digit span trials of each direction; absent in other tests
+  digitSpan?: { forward: DigitSpanScore | null; backward: DigitSpanScore | null } | null;
+  recallAudio: Blob | null;
+  speechTiming: SpeechTimingMetrics | null;
+  // How the answers were given; absent in results saved before typed answers, which were spoken
+  answerModality?: AnswerModality;
+  // Audio check before the test; absent in results saved before there was one
+  calibration?: AudioCalibrationResult | null;
+  // ISO 8601 completion time
+  timestamp: string;
+}
+
+export interface StoredTestResult extends TestResult {
+  id: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+      const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('timestamp', 'timestamp');
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await getDatabase();
+  return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+}
+
+/**
+ * Saves a completed session
+ *
+ * @param result - The session result
+ * @returns Promise with the id of the stored entry
+ */
+export async function saveTestResult(result: TestResult): Promise<number> {
+  const store = await getStore('readwrite');
+  return await requestToPromise(store.add(result)) as number;
+}
+
+/**
+ * Returns all stored sessions, oldest first
+ */
+export async function getTestResults(): Promise<StoredTestResult[]> {
+  const store = await getStore('readonly');
+  return await requestToPromise<StoredTestResult[]>(store.index('timestamp').getAll());
+}
+
+/**
+ * Deletes one stored session
+ *
+ * @param id - Id of the entry to delete
+ */
+export async function deleteTestResult(id: number): Promise<void> {
+  const store = await getStore('readwrite');
+  await requestToPromise(store.delete(id));
+}
+
+/**
+ * Deletes all stored sessions
+ */
+export async function clearTestResults(): Promise<void> {
+  const store = await getStore('readwrite');
+  await requestToPromise(store.clear());
+}
@@ -0,0 +1,190 @@
+/**
+ * A stand-in for the browser's SpeechRecognition that replays scripted answers.
+ *
+ * Every listening session takes the next turn of the script. A turn plays its
+ * results with the given delays, as the browser would report them, and then
+ * either reports an error or stays silent until the listener stops it (after
+ * its silence timeout, or when the user taps "I am done").
+ */
+
+// One recognized phrase of a turn
+export interface ScriptedResult {
+  text: string;
+  // Time since the previous result, or since listening started for the first one
+  delayMs?: number;
+  // Words shown before the final text, e.g. a partly recognized phrase
+  interim?: string;
+}
+
+export interface ScriptedTurn {
+  results?: ScriptedResult[];
+  // Recognition error reported after the results, e.g. 'network' or 'not-allowed'
+  error?: string;
+  // After the results: 'done' taps "I am done" where the screen offers it;
+  // 'silence' waits for the listener's silence timeout (default 'done')
+  then?: 'done' | 'silence';
+}
+
+// A turn as a plain transcript, or null for no answer at all
+export type ScriptStep = ScriptedTurn | string | null;
+
+// A step, or a function that returns it when listening starts, e.g. to repeat
+// what was just spoken
+export type ScriptEntry = ScriptStep | (() => ScriptStep);
+
+export interface RecognitionLogEntry {
+  turn: number;
+  lang: string;
+  continuous: boolean;
+  // What the listener was told, in order
+  events: string[];
+}
+
+export interface SpeechScript {
+  // Called when a turn has played its results and error
+  onTurnPlayed?: (turn: ScriptedTurn, index: number) => void;
+  log: RecognitionLogEntry[];
+  // Turns not yet taken
+  remaining(): number;
+  // SpeechRecognition constructor that plays this script
+  Recognition: new () => FakeSpeechRecognition;
+}
+
+export interface FakeSpeechRecognition {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+/**
+ * Returns a script step as a turn
+ */
+export function toTurn(step: ScriptStep): ScriptedTurn {
+  if (step === null || step === '') return { results: [] };
+  if (typeof step === 'string') return { results: [{ text: step }] };
+  return step;
+}
+
+/**
+ * Returns a script entry as a turn, calling it when it is a function
+ */
+export function resolveTurn(entry: ScriptEntry | undefined): ScriptedTurn {
+  if (entry === undefined) return { results: [] };
+  return toTurn(typeof entry === 'function' ? entry() : entry);
+}
+
+// Recognition results in the shape the browser reports them
+function resultList(texts: string[], finalCount: number) {
+  return texts.map((transcript, index) => Object.assign([{ transcript, confidence: 1 }], { isFinal: index < finalCount }));
+}
+
+/**
+ * Creates a speech script. Listening sessions beyond the end of the script
+ * hear nothing.
+ *
+ * @param steps - One turn per listening session, in order
+ * @returns The script with its SpeechRecognition constructor
+ */
+export function createSpeechScript(steps: ScriptEntry[]): SpeechScript {
+  let nextTurn = 0;
+
+  const script: SpeechScript = {
+    log: [],
+    remaining: () => steps.length - nextTurn,
+    Recognition: class implements FakeSpeechRecognition {
+      continuous = false;
+      interimResults = false;
+      lang = '';
+      onresult: ((event: unknown) => void) | null = null;
+      onerror: ((event: unknown) => void) | null = null;
+      onend: (() => void) | null = null;
+
+      private entry: RecognitionLogEntry | null = null;
+      private timers: ReturnType<typeof setTimeout>[] = [];
+      private running = false;
+
+      start() {
+        if (this.running) {
+          throw new Error('Recognition has already started');
+        }
+        this.running = true;
+
+        // The listener restarts the same instance after the browser ends a
+        // continuous run; a restart hears nothing new
+        if (this.entry) {
+          this.entry.events.push('restart');
+          return;
+        }
+
+        const index = nextTurn++;
+        const turn = resolveTurn(steps[index]);
+        this.entry = { turn: index, lang: this.lang, continuous: this.continuous, events: ['start'] };
+        script.log.push(this.entry);
+
+        const finals: string[] = [];
+        let at = 0;
+        for (const result of turn.results ?? []) {
+          at += result.delayMs ?? 0;
+          this.schedule(at, () => {
+            if (result.interim) {
+              this.emitResult([...finals, result.interim], finals.length);
+            }
+            finals.push(result.text);
+            this.emitResult(finals, finals.length);
+          });
+        }
+
+        this.schedule(at, () => {
+          if (turn.error) {
+            this.entry!.events.push(`error ${turn.error}`);
+            this.onerror?.({ error: turn.error });
+            this.end();
+          }
+          script.onTurnPlayed?.(turn, index);
+        });
+      }
+
+      stop() {
+        if (!this.running) return;
+        this.entry?.events.push('stop');
+        this.end();
+      }
+
+      abort() {
+        if (!this.running) return;
+        this.entry?.events.push('abort');
+        this.end();
+      }
+
+      private emitResult(texts: string[], finalCount: number) {
+        this.entry!.events.push(`result ${texts.join(' | ')}`);
+        this.onresult?.({ resultIndex: 0, results: resultList(texts, finalCount) });
+      }
+
+      private schedule(delayMs: number, action: () => void) {
+        this.timers.push(setTimeout(() => {
+          if (this.running) action();
+        }, delayMs));
+      }
+
+      // The browser reports the end asynchronously
+      private end() {
+        this.timers.forEach(clearTimeout);
+        this.timers = [];
+        this.running = false;
+        setTimeout(() => {
+          this.entry?.events.push('end');
+          this.onend?.();
+        }, 0);
+      }
+    },
+  };
+
+  return script;
+}
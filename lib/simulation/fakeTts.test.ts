@@ -0,0 +1,47 @@
+import { afterEach, expect, it } from 'vitest';
+import {
+  TtsProvider,
+  getTtsProviderPriority,
+  getTtsProviders,
+  registerTtsProvider,
+  unregisterTtsProvider,
+} from '@/lib/ttsProviders';
+import { SIMULATED_TTS_PROVIDER, createSimulatedTts, installSimulatedTts } from './fakeTts';
+
+const provider = (name: string): TtsProvider => ({
+  name,
+  capabilities: { returnsAudio: false, requiresNetwork: false },
+  synthesize: async () => null,
+});
+
+afterEach(() => {
+  ['first', 'last'].forEach(unregisterTtsProvider);
+});
+
+it('is the only provider while installed', () => {
+  registerTtsProvider(provider('last'), 50);
+  const restore = installSimulatedTts(createSimulatedTts());
+
+  expect(getTtsProviders().map(entry => entry.name)).toEqual([SIMULATED_TTS_PROVIDER]);
+  restore();
+});
+
+it('restores the providers at their priorities', () => {
+  const before = getTtsProviders().map(entry => [entry.name, getTtsProviderPriority(entry.name)]);
+  registerTtsProvider(provider('last'), 50);
+  registerTtsProvider(provider('first'), -50);
+  const expected = getTtsProviders().map(entry => [entry.name, getTtsProviderPriority(entry.name)]);
+
+  installSimulatedTts(createSimulatedTts())();
+
+  expect(getTtsProviders().map(entry => [entry.name, getTtsProviderPriority(entry.name)])).toEqual(expected);
+  expect(expected).toHaveLength(before.length + 2);
+});
+
+it('records what it speaks and fails when asked to', async () => {
+  const tts = createSimulatedTts({ fails: text => text === 'fail' });
+
+  await tts.provider.synthesize('hello');
+  await expect(tts.provider.synthesize('fail')).rejects.toThrow('Simulated speech synthesis failure');
+  expect(tts.spoken).toEqual(['hello']);
+});
@@ -0,0 +1,77 @@
+/**
+ * A text-to-speech provider that speaks nothing: each utterance is recorded and
+ * resolves at once or after a set duration, or fails when asked to.
+ */
+
+import {
+  TtsProvider,
+  getTtsProviders,
+  getTtsProviderPriority,
+  registerTtsProvider,
+  unregisterTtsProvider,
+} from '@/lib/ttsProviders';
+import { delay } from '@/lib/testSession';
+
+export const SIMULATED_TTS_PROVIDER = 'simulated';
+
+export interface SimulatedTtsOptions {
+  // Time each utterance takes, or a function of its text (default 0)
+  durationMs?: number | ((text: string) => number);
+  // Utterances that fail, as a synthesis error would
+  fails?: (text: string) => boolean;
+}
+
+export interface SimulatedTts {
+  provider: TtsProvider;
+  // Utterances in the order they were spoken
+  spoken: string[];
+}
+
+/**
+ * Creates a simulated TTS provider
+ *
+ * @param options - Duration and failures of the utterances
+ * @returns The provider and the record of what it spoke
+ */
+export function createSimulatedTts(options: SimulatedTtsOptions = {}): SimulatedTts {
+  const spoken: string[] = [];
+  const duration = (text: string) =>
+    typeof options.durationMs === 'function' ? options.durationMs(text) : options.durationMs ?? 0;
+
+  return {
+    spoken,
+    provider: {
+      name: SIMULATED_TTS_PROVIDER,
+      capabilities: { returnsAudio: false, requiresNetwork: false },
+      async synthesize(text, ttsOptions) {
+        if (options.fails?.(text)) {
+          throw new Error(`Simulated speech synthesis failure: ${text}`);
+        }
+        spoken.push(text);
+        const durationMs = duration(text);
+        if (durationMs > 0) {
+          await delay(durationMs, ttsOptions?.signal);
+        }
+        return null;
+      },
+    },
+  };
+}
+
+/**
+ * Makes the simulated provider the only registered one, so nothing is fetched
+ * or played
+ *
+ * @param tts - The simulated provider
+ * @returns Function that restores the previous providers
+ */
+export function installSimulatedTts(tts: SimulatedTts): () => void {
+  const previous = getTtsProviders().map(provider => ({ provider, priority: getTtsProviderPriority(provider.name) }));
+  previous.forEach(({ provider }) => unregisterTtsProvider(provider.name));
+  registerTtsProvider(tts.provider);
+
+  return () => {
+    unregisterTtsProvider(tts.provider.name);
+    previous.forEach(({ provider, priority }) => registerTtsProvider(provider, priority));
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * Scripted speech for running sessions without a microphone or speakers
+ */
+
+export * from './fakeSpeechRecognition';
+export * from './fakeTts';
+export * from './sessionHarness';
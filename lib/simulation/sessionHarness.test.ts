@@ -0,0 +1,311 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getLocaleBundle } from '@/lib/locales';
+import { ResponseAttempt } from '@/lib/responseAttempts';
+import { runSimulatedSession, SimulatedSession, SimulatedSessionOptions } from './sessionHarness';
+
+const en = getLocaleBundle('en');
+
+// Simulated time a session may take before the test gives up on it
+const SESSION_LIMIT_MS = 30 * 60 * 1000;
+const TICK_MS = 250;
+
+const sessions: SimulatedSession[] = [];
+
+// Runs a session on fake timers, so the protocols' waits take no real time
+async function simulate(options: SimulatedSessionOptions): Promise<SimulatedSession> {
+  let session: SimulatedSession | null = null;
+  const running = runSimulatedSession(options).then(result => {
+    session = result;
+    sessions.push(result);
+  });
+  for (let elapsed = 0; session === null; elapsed += TICK_MS) {
+    if (elapsed > SESSION_LIMIT_MS) throw new Error('The simulated session did not finish');
+    await vi.advanceTimersByTimeAsync(TICK_MS);
+  }
+  await running;
+  return session!;
+}
+
+function completed(session: SimulatedSession) {
+  if (session.outcome.status !== 'completed') {
+    throw new Error(`Expected a completed session, got: ${JSON.stringify(session.outcome)}`);
+  }
+  return session.outcome.result;
+}
+
+// Words of the list that was read out, in order
+function presentedWords(spoken: string[]): string[] {
+  const lists = [...en.wordLists, ...en.misWordLists.map(list => list.map(item => item.word))];
+  const list = lists.find(words => words.every(word => spoken.includes(word)));
+  if (!list) throw new Error('No word list was read out');
+  return list;
+}
+
+const recallWords = (count: number) => (spoken: string[]) => presentedWords(spoken).slice(0, count).join(' ');
+
+// Answers the category cue that was just spoken with its word
+const answerCue = (spoken: string[]) => {
+  const cue = spoken[spoken.length - 1];
+  const item = en.misWordLists.flat().find(candidate => cue === en.prompts.categoryCue.replace('{category}', candidate.category));
+  return item?.word ?? null;
+};
+
+// Repeats the last digits spoken
+const repeatDigits = (length: number, reverse = false) => (spoken: string[]) => {
+  const digits = spoken.slice(-length);
+  return (reverse ? digits.reverse() : digits).join(' ');
+};
+
+const recallOutcomes = (attempts: ResponseAttempt[]) =>
+  attempts.filter(attempt => attempt.id === 'recall').map(attempt => attempt.outcome);
+
+const COUNTING = 'twenty nineteen eighteen seventeen sixteen fifteen';
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+  // A Monday in autumn in the northern hemisphere
+  vi.setSystemTime(new Date(2026, 9, 19, 10));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  sessions.splice(0).forEach(session => session.cleanup());
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('Mini-Cog', () => {
+  it('runs the phases in order and scores a full recall with a normal clock', async () => {
+    const session = await simulate({ mode: 'miniCog', script: [COUNTING, recallWords(3)] });
+    const result = completed(session);
+
+    expect(session.phases).toEqual(['wordPresentation', 'clockDrawing', 'interference', 'recall']);
+    expect(result.miniCog).toMatchObject({ recallScore: 3, clockScore: 2, totalScore: 5, screenPositive: false });
+    expect(result.totalScore).toBe(5);
+    expect(result.maxScore).toBe(5);
+    expect(result.interference?.task).toBe('countBackward');
+    expect(result.fluency).toBeNull();
+  });
+
+  it('screens positive with one word and an abnormal clock', async () => {
+    const session = await simulate({ mode: 'miniCog', clockScore: 0, script: [COUNTING, recallWords(1)] });
+    const result = completed(session);
+
+    expect(result.miniCog).toMatchObject({ recallScore: 1, clockScore: 0, totalScore: 1 });
+    expect(result.screenPositive).toBe(true);
+  });
+
+  it('does not count a word said twice twice', async () => {
+    const session = await simulate({
+      mode: 'miniCog',
+      script: [COUNTING, spoken => `${presentedWords(spoken)[0]} ${presentedWords(spoken)[0]}`],
+    });
+
+    expect(completed(session).miniCog?.recallScore).toBe(1);
+  });
+
+  it('asks the orientation questions first when added', async () => {
+    const session = await simulate({
+      mode: 'miniCog',
+      withOrientation: true,
+      script: ['2026', 'autumn', 'the nineteenth', 'monday', 'october', COUNTING, recallWords(3)],
+    });
+    const result = completed(session);
+
+    expect(session.phases[0]).toBe('orientation');
+    expect(session.phases.slice(1)).toEqual(['wordPresentation', 'clockDrawing', 'interference', 'recall']);
+    expect(result.orientation).toMatchObject({ totalScore: 5, maxScore: 5 });
+    // Orientation is reported next to the recall test, not added to it
+    expect(result.totalScore).toBe(5);
+  });
+
+  it('names animals after the recall when fluency is added', async () => {
+    const session = await simulate({
+      mode: 'miniCog',
+      withFluency: true,
+      script: [COUNTING, recallWords(3), 'dog cat horse dog table'],
+    });
+    const result = completed(session);
+
+    expect(session.phases).toEqual(['wordPresentation', 'clockDrawing', 'interference', 'recall', 'fluency']);
+    expect(result.fluency).toMatchObject({ category: 'animals', validCount: 3, perseverations: 1, intrusions: 1 });
+    expect(result.totalScore).toBe(5);
+  });
+});
+
+describe('MIS', () => {
+  it('cues the words missed in free recall', async () => {
+    const session = await simulate({ mode: 'mis', script: [COUNTING, recallWords(2), answerCue, null] });
+    const result = completed(session);
+
+    expect(session.phases).toEqual(['wordPresentation', 'interference', 'recall', 'cuedRecall']);
+    expect(result.cuedItems).toHaveLength(2);
+    expect(result.mis).toMatchObject({ freeRecall: 2, cuedRecall: 1, totalScore: 5, maxScore: 8 });
+  });
+
+  it('skips the cues when every word is recalled', async () => {
+    const session = await simulate({ mode: 'mis', script: [COUNTING, recallWords(4)] });
+    const result = completed(session);
+
+    expect(session.spoken.some(text => text.startsWith(en.prompts.categoryCue.split('{category}')[0]))).toBe(false);
+    expect(result.cuedItems).toHaveLength(0);
+    expect(result.mis).toMatchObject({ freeRecall: 4, cuedRecall: 0, totalScore: 8, screenPositive: false });
+  });
+});
+
+describe('orientation', () => {
+  it('scores each question against the date', async () => {
+    const session = await simulate({
+      mode: 'orientation',
+      script: ['2025', 'autumn', 'the nineteenth', 'tuesday', 'october'],
+    });
+    const result = completed(session);
+
+    expect(session.phases).toEqual(['orientation']);
+    expect(result.orientation?.answers.map(answer => [answer.item, answer.correct])).toEqual([
+      ['year', false],
+      ['season', true],
+      ['date', true],
+      ['dayOfWeek', false],
+      ['month', true],
+    ]);
+    expect(result.totalScore).toBe(3);
+  });
+});
+
+describe('digit span', () => {
+  it('stops each direction after two failures at one length', async () => {
+    const session = await simulate({
+      mode: 'digitSpan',
+      script: [
+        repeatDigits(3), repeatDigits(3), 'one', 'one',
+        repeatDigits(2, true), 'one', 'one', 'one',
+      ],
+    });
+    const result = completed(session);
+
+    expect(session.phases).toEqual(['digitSpanForward', 'digitSpanBackward']);
+    expect(result.digitSpan?.forward?.longestSpan).toBe(3);
+    expect(result.digitSpan?.forward?.trials.map(trial => [trial.length, trial.correct])).toEqual([
+      [3, true], [3, true], [4, false], [4, false],
+    ]);
+    // One failure at a length still moves on to the next length
+    expect(result.digitSpan?.backward?.longestSpan).toBe(2);
+    expect(result.digitSpan?.backward?.trials.map(trial => [trial.length, trial.correct])).toEqual([
+      [2, true], [2, false], [3, false], [3, false],
+    ]);
+  });
+});
+
+describe('answers', () => {
+  it('re-prompts after silence and keeps every attempt', async () => {
+    const session = await simulate({
+      mode: 'miniCog',
+      script: [COUNTING, { then: 'silence' }, { then: 'silence' }, recallWords(3)],
+    });
+    const result = completed(session);
+
+    expect(session.spoken.filter(text => text === en.prompts.recallReprompt)).toHaveLength(2);
+    expect(recallOutcomes(result.recallAttempts)).toEqual(['noSpeech', 'noSpeech', 'response']);
+    expect(result.miniCog?.recallScore).toBe(3);
+  });
+
+  it('scores no words after silence on every attempt', async () => {
+    const session = await simulate({
+      mode: 'miniCog',
+      script: [COUNTING, { then: 'silence' }, { then: 'silence' }, { then: 'silence' }],
+    });
+    const result = completed(session);
+
+    expect(recallOutcomes(result.recallAttempts)).toEqual(['noSpeech', 'noSpeech', 'noSpeech']);
+    expect(result.miniCog?.recallScore).toBe(0);
+  });
+
+  it('takes "I don\'t know" as an answer without re-prompting', async () => {
+    const session = await simulate({ mode: 'miniCog', script: [COUNTING, "I don't know"] });
+    const result = completed(session);
+
+    expect(session.spoken).not.toContain(en.prompts.recallReprompt);
+    expect(recallOutcomes(result.recallAttempts)).toEqual(['gaveUp']);
+    expect(result.miniCog?.recallScore).toBe(0);
+  });
+
+  it('scores typed answers and records the modality', async () => {
+    const session = await simulate({ mode: 'miniCog', answerModality: 'typed', script: [COUNTING, recallWords(3)] });
+    const result = completed(session);
+
+    expect(session.recognition).toHaveLength(0);
+    expect(result.answerModality).toBe('typed');
+    expect(result.miniCog?.recallScore).toBe(3);
+  });
+
+  it('falls back to typed answers without speech recognition', async () => {
+    const session = await simulate({ mode: 'miniCog', recognitionUnsupported: true, script: [COUNTING, recallWords(2)] });
+    const result = completed(session);
+
+    expect(result.answerModality).toBe('typed');
+    expect(result.miniCog?.recallScore).toBe(2);
+  });
+
+  it('listens in the session language', async () => {
+    const nl = getLocaleBundle('nl');
+    const session = await simulate({ mode: 'orientation', locale: 'nl', script: ['2026', 'herfst', 'negentien', 'maandag', 'oktober'] });
+
+    expect(session.recognition.every(entry => entry.lang === nl.speechLang)).toBe(true);
+    expect(completed(session).locale).toBe('nl');
+  });
+});
+
+describe('errors', () => {
+  it('re-prompts after a recognition error', async () => {
+    const session = await simulate({ mode: 'miniCog', script: [COUNTING, { error: 'network' }, recallWords(3)] });
+    const result = completed(session);
+
+    expect(recallOutcomes(result.recallAttempts)).toEqual(['error', 'response']);
+    expect(result.recallAttempts.find(attempt => attempt.outcome === 'error')?.error).toContain('network');
+  });
+
+  it('fails when recognition keeps failing', async () => {
+    const session = await simulate({
+      mode: 'miniCog',
+      script: [COUNTING, { error: 'network' }, { error: 'network' }, { error: 'network' }],
+    });
+
+    expect(session.outcome).toMatchObject({ status: 'failed' });
+    expect(session.outcome.status === 'failed' && session.outcome.error).toContain('Speech recognition error: network');
+  });
+
+  it('fails when a prompt cannot be spoken', async () => {
+    const session = await simulate({
+      mode: 'miniCog',
+      script: [COUNTING, recallWords(3)],
+      tts: { fails: text => text === en.prompts.recall },
+    });
+
+    expect(session.outcome.status).toBe('failed');
+    expect(session.spoken).not.toContain(en.prompts.recall);
+  });
+
+  it('stops speaking and listening when the test is left', async () => {
+    const controller = new AbortController();
+    const session = await simulate({
+      mode: 'miniCog',
+      signal: controller.signal,
+      script: [() => {
+        // Leave while counting backward
+        setTimeout(() => controller.abort(), 1000);
+        return { results: [{ text: COUNTING, delayMs: 5000 }] };
+      }],
+    });
+    const spokenWhenLeft = session.spoken.length;
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(session.outcome.status).toBe('cancelled');
+    expect(session.phases[session.phases.length - 1]).toBe('interference');
+    expect(session.recognition[0].events).toContain('abort');
+    expect(session.recognition[0].events.some(event => event.startsWith('result'))).toBe(false);
+    expect(session.recognition).toHaveLength(1);
+    expect(session.spoken).toHaveLength(spokenWhenLeft);
+  });
+});
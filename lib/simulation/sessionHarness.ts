@@ -0,0 +1,247 @@
+/**
+ * Runs a whole AlzheimersVoiceTest session in a DOM without a microphone,
+ * speakers or network, e.g. under jsdom.
+ *
+ * The browser's speech recognition is replaced by a speech script, speech
+ * synthesis by the simulated TTS provider and the clock canvas by a stub. The
+ * harness then acts as patient and clinician: it starts the test, draws and
+ * scores the clock, and taps "I am done" after each scripted answer, or types
+ * the answers when the session takes typed answers. Waits in
+ * the protocols (word pauses, the minimum recall delay, the fluency minute) run
+ * on the page's timers.
+ */
+
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import AlzheimersVoiceTest, { AlzheimersVoiceTestResult, VoiceTestMode } from '@/components/AlzheimersVoiceTest';
+import { LocaleProvider } from '@/components/LocaleProvider';
+import { LocaleCode, getLocaleBundle } from '@/lib/locales';
+import { InterferenceTask } from '@/lib/interference';
+import { AnswerModality } from '@/lib/testModes';
+import { ClockScore } from '@/lib/miniCog';
+import { ProtocolState } from '@/lib/protocolRunner';
+import { createSpeechScript, resolveTurn, RecognitionLogEntry, ScriptStep } from './fakeSpeechRecognition';
+import { createSimulatedTts, installSimulatedTts, SimulatedTtsOptions } from './fakeTts';
+
+export interface SimulatedSessionOptions {
+  mode?: VoiceTestMode;
+  locale?: LocaleCode;
+  withOrientation?: boolean;
+  withFluency?: boolean;
+  interferenceTask?: InterferenceTask;
+  answerModality?: AnswerModality;
+  // One turn per listening session, in order; typed answers take the texts of
+  // the results. A function is called with what has been spoken so far when
+  // its turn starts.
+  script: Array<ScriptStep | ((spoken: string[]) => ScriptStep)>;
+  tts?: SimulatedTtsOptions;
+  // Clinician's score of the clock drawing (default 2, normal)
+  clockScore?: ClockScore;
+  // Leave speech recognition out, as in a browser without it
+  recognitionUnsupported?: boolean;
+  // Leaves the test, as when the page is closed, and unmounts it
+  signal?: AbortSignal;
+}
+
+export type SimulatedSessionOutcome =
+  | { status: 'completed'; result: AlzheimersVoiceTestResult }
+  | { status: 'failed'; error: string }
+  | { status: 'cancelled' };
+
+export interface SimulatedSession {
+  outcome: SimulatedSessionOutcome;
+  // Phases in the order they were shown
+  phases: string[];
+  // Utterances in the order they were spoken
+  spoken: string[];
+  recognition: RecognitionLogEntry[];
+  // The rendered test, still mounted
+  container: HTMLElement;
+  // Unmounts the test and restores the browser APIs
+  cleanup(): void;
+}
+
+// 1×1 white PNG returned for the clock drawing
+const BLANK_PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAwMCAO+ip1sAAAAASUVORK5CYII=';
+
+// jsdom has no 2D canvas and no pointer capture; the clock drawing needs both
+function installCanvasStub(): () => void {
+  const canvas = HTMLCanvasElement.prototype;
+  const element = Element.prototype;
+  const { getContext, toDataURL } = canvas;
+  const { setPointerCapture, releasePointerCapture } = element;
+
+  // Every drawing call is accepted and ignored
+  const context = new Proxy({}, { get: () => () => {}, set: () => true });
+  canvas.getContext = (() => context) as unknown as typeof getContext;
+  canvas.toDataURL = () => BLANK_PNG;
+  element.setPointerCapture = () => {};
+  element.releasePointerCapture = () => {};
+
+  return () => {
+    Object.assign(canvas, { getContext, toDataURL });
+    Object.assign(element, { setPointerCapture, releasePointerCapture });
+  };
+}
+
+function installRecognition(Recognition: unknown): () => void {
+  const { SpeechRecognition, webkitSpeechRecognition } = window;
+  window.SpeechRecognition = Recognition;
+  window.webkitSpeechRecognition = undefined;
+  return () => Object.assign(window, { SpeechRecognition, webkitSpeechRecognition });
+}
+
+// Types into a controlled input the way a user would, so React sees the change
+function typeInto(input: HTMLInputElement, text: string) {
+  Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')!.set!.call(input, text);
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+// Submits each line once React has rendered the typed text
+function submitLines(input: HTMLInputElement, lines: string[]) {
+  const [line, ...rest] = lines;
+  if (line === undefined) return;
+  typeInto(input, line);
+  setTimeout(() => {
+    input.form?.requestSubmit();
+    setTimeout(() => submitLines(input, rest), 0);
+  }, 0);
+}
+
+function findButton(container: HTMLElement, label: string): HTMLButtonElement | undefined {
+  return Array.from(container.querySelectorAll('button')).find(button => button.textContent?.trim() === label);
+}
+
+/**
+ * Runs a test session against scripted answers
+ *
+ * @param options - Test, language, answers and simulated speech
+ * @returns Promise with the outcome once the results are shown, the test has
+ * failed or it was left
+ */
+export function runSimulatedSession(options: SimulatedSessionOptions): Promise<SimulatedSession> {
+  const { ui } = getLocaleBundle(options.locale ?? 'en');
+  const tts = createSimulatedTts(options.tts);
+  const entries = options.script.map(step => (typeof step === 'function' ? () => step(tts.spoken) : step));
+  const script = createSpeechScript(entries);
+  const restorers = [
+    installSimulatedTts(tts),
+    installCanvasStub(),
+    installRecognition(options.recognitionUnsupported ? undefined : script.Recognition),
+  ];
+
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const root = createRoot(container);
+  const phases: string[] = [];
+  // Turn after which the user taps "I am done"
+  let doneAfterTurn: number | null = null;
+  let started = false;
+  // Typed answers use the script's turns in order, one per answer field
+  const typedEntries = [...entries];
+  const answeredFields = new WeakSet<HTMLInputElement>();
+
+  let cleanedUp = false;
+  const cleanup = () => {
+    if (cleanedUp) return;
+    cleanedUp = true;
+    root.unmount();
+    container.remove();
+    restorers.reverse().forEach(restore => restore());
+  };
+
+  return new Promise<SimulatedSession>(resolve => {
+    let observer: MutationObserver | null = null;
+    let finished = false;
+    const finish = (outcome: SimulatedSessionOutcome) => {
+      finished = true;
+      observer?.disconnect();
+      resolve({ outcome, phases, spoken: tts.spoken, recognition: script.log, container, cleanup });
+    };
+
+    const onStateChange = (state: ProtocolState) => {
+      if (state.phase && state.phase !== phases[phases.length - 1]) phases.push(state.phase);
+    };
+
+    // Act on whatever the screen shows
+    const act = () => {
+      if (finished) return;
+
+      const error = Array.from(container.querySelectorAll('p'))
+        .find(paragraph => paragraph.textContent?.startsWith(`${ui.errorDuringTest}:`));
+      if (error) {
+        finish({ status: 'failed', error: error.textContent!.slice(ui.errorDuringTest.length + 1).trim() });
+        return;
+      }
+
+      if (!started) {
+        const start = findButton(container, ui.startTest);
+        // Without speech recognition, once the page has switched to typed answers
+        const ready = !options.recognitionUnsupported || container.textContent?.includes(ui.typedAnswersFallback);
+        if (start && ready) {
+          started = true;
+          start.click();
+        }
+        return;
+      }
+
+      const canvas = container.querySelector('canvas');
+      const clockDone = findButton(container, ui.clockDone);
+      if (canvas && clockDone?.disabled) {
+        const PointerEventClass = typeof PointerEvent === 'function' ? PointerEvent : MouseEvent;
+        canvas.dispatchEvent(new PointerEventClass('pointerdown', { bubbles: true, clientX: 10, clientY: 10 }));
+        canvas.dispatchEvent(new PointerEventClass('pointermove', { bubbles: true, clientX: 20, clientY: 20 }));
+        canvas.dispatchEvent(new PointerEventClass('pointerup', { bubbles: true }));
+      } else if (clockDone) {
+        clockDone.click();
+      }
+
+      const clockScore = findButton(container, (options.clockScore ?? 2) === 2 ? ui.clockNormal : ui.clockAbnormal);
+      clockScore?.click();
+
+      const field = container.querySelector<HTMLInputElement>('form input[type="text"]');
+      if (field && !answeredFields.has(field)) {
+        answeredFields.add(field);
+        const turn = resolveTurn(typedEntries.shift());
+        const lines = turn.results?.length ? turn.results.map(result => result.text) : [''];
+        submitLines(field, lines);
+      }
+
+      // Only while the turn that asked for it is still listening
+      const current = script.log[script.log.length - 1];
+      const doneSpeaking = findButton(container, ui.doneSpeaking);
+      if (doneSpeaking && current?.turn === doneAfterTurn && !current.events.includes('end')) {
+        doneAfterTurn = null;
+        doneSpeaking.click();
+      }
+    };
+
+    script.onTurnPlayed = (turn, index) => {
+      if (!turn.error && (turn.then ?? 'done') === 'done') {
+        doneAfterTurn = index;
+        // A silent turn changes nothing on screen
+        setTimeout(act, 0);
+      }
+    };
+
+    options.signal?.addEventListener('abort', () => {
+      if (finished) return;
+      finish({ status: 'cancelled' });
+      cleanup();
+    }, { once: true });
+
+    observer = new MutationObserver(act);
+    observer.observe(container, { childList: true, subtree: true, characterData: true, attributes: true });
+
+    const test = React.createElement(AlzheimersVoiceTest, {
+      mode: options.mode,
+      withOrientation: options.withOrientation,
+      withFluency: options.withFluency,
+      interferenceTask: options.interferenceTask,
+      answerModality: options.answerModality,
+      onStateChange,
+      onComplete: result => finish({ status: 'completed', result }),
+    });
+    root.render(React.createElement(LocaleProvider, { initialLocale: options.locale ?? 'en', children: test }));
+  });
+}
@@ -0,0 +1,175 @@
+/**
+ * Helpers around the Web Speech API speech recognition
+ */
+
+import { abortError } from '@/lib/testSession';
+
+// End a response after this much silence following the last recognized speech
+export const DEFAULT_SILENCE_TIMEOUT_MS = 6000;
+// End a response after this long, however much is still being said
+export const DEFAULT_MAX_RESPONSE_MS = 30000;
+
+export interface ListenOptions {
+  // Keep listening across pauses until the silence timeout; otherwise stop after the first phrase
+  continuous?: boolean;
+  silenceTimeoutMs?: number;
+  maxResponseMs?: number;
+  // Called with the text recognized so far, including words that may still change
+  onInterim?: (transcript: string) => void;
+  // Called with each final result as it arrives, e.g. to time when words were said
+  onFinal?: (text: string) => void;
+  // Cancels listening at once; the result rejects with an AbortError and what was heard is dropped
+  signal?: AbortSignal;
+}
+
+export interface RecognitionSession {
+  // Resolves with all final results joined, or an empty string when nothing was recognized
+  result: Promise<string>;
+  // Ends listening early; the result resolves with what was recognized so far
+  stop(): void;
+}
+
+/**
+ * Returns the browser's SpeechRecognition constructor, or null when unsupported
+ */
+export function getSpeechRecognitionConstructor(): any | null {
+  if (typeof window === 'undefined') return null;
+  return window.SpeechRecognition || window.webkitSpeechRecognition || null;
+}
+
+/**
+ * Starts listening for a spoken response. In continuous mode the browser's own
+ * end of recognition (e.g. after a pause) restarts it, so the response only ends
+ * after the silence timeout, the maximum response time or a call to stop().
+ *
+ * @param lang - BCP 47 language tag to recognize
+ * @param options - Listening mode, timing and interim result callback
+ * @returns The running recognition session
+ */
+export function startRecognition(lang: string, options: ListenOptions = {}): RecognitionSession {
+  const SpeechRecognition = getSpeechRecognitionConstructor();
+  if (!SpeechRecognition) {
+    return {
+      result: Promise.reject(new Error('Speech recognition is not supported in this browser.')),
+      stop() {},
+    };
+  }
+
+  if (options.signal?.aborted) {
+    return { result: Promise.reject(abortError()), stop() {} };
+  }
+
+  const continuous = options.continuous ?? true;
+  const silenceTimeoutMs = options.silenceTimeoutMs ?? DEFAULT_SILENCE_TIMEOUT_MS;
+  const maxResponseMs = options.maxResponseMs ?? DEFAULT_MAX_RESPONSE_MS;
+
+  const recognition = new SpeechRecognition();
+  recognition.continuous = continuous;
+  recognition.interimResults = true;
+  recognition.lang = lang;
+
+  // Final results of earlier recognition runs, and of the current run by result index
+  const earlierFinals: string[] = [];
+  let currentFinals: string[] = [];
+  let stopping = false;
+  let failure: Error | null = null;
+  let silenceTimer: ReturnType<typeof setTimeout> | undefined;
+  let maxTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const stop = () => {
+    if (stopping) return;
+    stopping = true;
+    recognition.stop();
+  };
+
+  const finalTranscript = () => [...earlierFinals, ...currentFinals].filter(Boolean).join(' ');
+
+  const result = new Promise<string>((resolve, reject) => {
+    let settled = false;
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(silenceTimer);
+      clearTimeout(maxTimer);
+      options.signal?.removeEventListener('abort', cancel);
+      if (failure) {
+        reject(failure);
+      } else {
+        resolve(finalTranscript());
+      }
+    };
+
+    const cancel = () => {
+      failure = abortError();
+      stopping = true;
+      recognition.abort();
+      finish();
+    };
+
+    const restartSilenceTimer = () => {
+      clearTimeout(silenceTimer);
+      silenceTimer = setTimeout(stop, silenceTimeoutMs);
+    };
+
+    recognition.onresult = (event: any) => {
+      const interim: string[] = [];
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const text = event.results[i][0].transcript.trim();
+        if (event.results[i].isFinal) {
+          if (currentFinals[i] === undefined && text) options.onFinal?.(text);
+          currentFinals[i] = text;
+        } else {
+          interim.push(text);
+        }
+      }
+      options.onInterim?.([finalTranscript(), ...interim].filter(Boolean).join(' '));
+      restartSilenceTimer();
+    };
+
+    recognition.onerror = (event: any) => {
+      // Silence is an answer too; the session ends through onend or the timers
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      console.error('Speech recognition error:', event.error);
+      failure = new Error(`Speech recognition error: ${event.error}`);
+      stopping = true;
+    };
+
+    recognition.onend = () => {
+      if (continuous && !stopping) {
+        earlierFinals.push(...currentFinals.filter(Boolean));
+        currentFinals = [];
+        try {
+          recognition.start();
+          return;
+        } catch (error) {
+          console.error('Failed to restart speech recognition:', error);
+        }
+      }
+      finish();
+    };
+
+    options.signal?.addEventListener('abort', cancel, { once: true });
+    restartSilenceTimer();
+    maxTimer = setTimeout(stop, maxResponseMs);
+    try {
+      recognition.start();
+    } catch (error) {
+      failure = error instanceof Error ? error : new Error(String(error));
+      finish();
+    }
+  });
+
+  return { result, stop };
+}
+
+/**
+ * Listens for a single spoken response
+ *
+ * @param lang - BCP 47 language tag to recognize
+ * @param options - Listening mode and timing
+ * @returns Promise with the transcript, or an empty string when nothing was recognized
+ */
+export function listenOnce(lang: string, options?: ListenOptions): Promise<string> {
+  return startRecognition(lang, options).result;
+}
@@ -0,0 +1,160 @@
+/**
+ * Speech settings per user profile: rate, pitch, volume and voice of the
+ * spoken prompts, stored in IndexedDB
+ */
+
+import { openDatabase, requestToPromise, isIndexedDbAvailable } from '@/lib/indexedDb';
+import { TtsOptions, getTtsProviders } from '@/lib/ttsProviders';
+import { webSpeechProvider } from '@/lib/huggingFaceApi';
+
+const DB_NAME = 'alzheimers-voice-test-settings';
+const DB_VERSION = 1;
+const STORE_NAME = 'speechSettings';
+
+// Profile used until another one is chosen
+export const DEFAULT_PROFILE = 'default';
+
+export const SPEECH_RATE_RANGE = { min: 0.5, max: 1.5 };
+export const SPEECH_PITCH_RANGE = { min: 0.5, max: 1.5 };
+
+// A voice of one TTS provider
+export interface SpeechVoice {
+  provider: string;
+  name: string;
+  // Display name, when it differs from the name
+  label?: string;
+}
+
+export interface SpeechSettings {
+  // 1 is the normal rate
+  rate: number;
+  // 1 is the normal pitch
+  pitch: number;
+  // From 0 to 1
+  volume: number;
+  // Chosen voice per BCP 47 language tag; other languages use each provider's default voice
+  voices: Record<string, SpeechVoice>;
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  rate: 1,
+  pitch: 1,
+  volume: 1,
+  voices: {},
+};
+
+interface StoredSpeechSettings extends SpeechSettings {
+  profile: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+      db.createObjectStore(STORE_NAME, { keyPath: 'profile' });
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await getDatabase();
+  return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+}
+
+/**
+ * Returns the settings of a profile, or the defaults when it has none or
+ * storage is unavailable
+ *
+ * @param profile - Profile name
+ */
+export async function loadSpeechSettings(profile: string): Promise<SpeechSettings> {
+  if (!isIndexedDbAvailable()) return DEFAULT_SPEECH_SETTINGS;
+
+  try {
+    const store = await getStore('readonly');
+    const stored = await requestToPromise<StoredSpeechSettings | undefined>(store.get(profile));
+    if (!stored) return DEFAULT_SPEECH_SETTINGS;
+
+    return {
+      rate: stored.rate ?? DEFAULT_SPEECH_SETTINGS.rate,
+      pitch: stored.pitch ?? DEFAULT_SPEECH_SETTINGS.pitch,
+      volume: stored.volume ?? DEFAULT_SPEECH_SETTINGS.volume,
+      voices: stored.voices ?? {},
+    };
+  } catch (error) {
+    console.warn('Speech settings read failed:', error);
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+}
+
+/**
+ * Saves the settings of a profile, creating the profile if needed
+ *
+ * @param profile - Profile name
+ * @param settings - The settings to keep
+ */
+export async function saveSpeechSettings(profile: string, settings: SpeechSettings): Promise<void> {
+  const store = await getStore('readwrite');
+  await requestToPromise(store.put({ ...settings, profile }));
+}
+
+/**
+ * Returns the names of the profiles with saved settings
+ */
+export async function getSpeechProfiles(): Promise<string[]> {
+  if (!isIndexedDbAvailable()) return [];
+
+  try {
+    const store = await getStore('readonly');
+    return (await requestToPromise(store.getAllKeys())).map(String);
+  } catch (error) {
+    console.warn('Speech profiles read failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Returns the voices that can speak a language: those listed by the TTS
+ * providers and the browser's own voices for the language. Browsers may load
+ * their voices late and report them with a voiceschanged event.
+ *
+ * @param locale - BCP 47 language tag, e.g. 'nl-NL'
+ */
+export function getAvailableVoices(locale: string): SpeechVoice[] {
+  const providerVoices = getTtsProviders().flatMap(provider =>
+    (provider.capabilities.voices ?? []).map(name => ({ provider: provider.name, name }))
+  );
+
+  const language = locale.split('-')[0];
+  const browserVoices = typeof window !== 'undefined' && window.speechSynthesis
+    ? window.speechSynthesis.getVoices()
+      .filter(voice => voice.lang.split(/[-_]/)[0] === language)
+      .map(voice => ({ provider: webSpeechProvider.name, name: voice.voiceURI, label: `${voice.name} (${voice.lang})` }))
+    : [];
+
+  return [...providerVoices, ...browserVoices];
+}
+
+/**
+ * Converts speech settings to the options of speakWithFallback
+ *
+ * @param settings - Speech settings of the profile
+ * @param locale - BCP 47 language tag of the prompts
+ */
+export function toTtsOptions(settings: SpeechSettings, locale: string): TtsOptions {
+  const voice = settings.voices[locale];
+  return {
+    locale,
+    rate: settings.rate,
+    pitch: settings.pitch,
+    volume: settings.volume,
+    voice: voice?.name,
+    voiceProvider: voice?.provider,
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Speech timing analysis of the recorded recall response.
+ *
+ * Runs an energy-based voice activity detector over the decoded recording
+ * and derives response latency, speaking time, pauses and word onsets.
+ */
+
+import { tokenize } from '@/lib/wordMatching';
+
+// Analysis frame length
+const FRAME_MS = 20;
+// Silences shorter than this are treated as part of the surrounding speech
+const MIN_PAUSE_MS = 250;
+// Bursts shorter than this are treated as clicks or noise
+const MIN_SPEECH_MS = 80;
+// Speech must be this many times louder than the noise floor
+const NOISE_FLOOR_MULTIPLIER = 3;
+// Lowest RMS level that can count as speech, for recordings with a near-silent floor
+const MIN_SPEECH_RMS = 0.005;
+
+export interface SpeechSegment {
+  startMs: number;
+  endMs: number;
+}
+
+export interface WordOnset {
+  word: string;
+  onsetMs: number;
+}
+
+export interface SpeechTimingMetrics {
+  // Time from the end of the recall prompt to the first speech, null when no speech was found
+  responseLatencyMs: number | null;
+  speakingTimeMs: number;
+  pauseCount: number;
+  pauseDurationsMs: number[];
+  recordingDurationMs: number;
+  // Onsets of the transcript words, relative to the start of the recording
+  wordOnsets: WordOnset[];
+  // True when the onsets are spread over the speech rather than one word per speech segment
+  wordOnsetsEstimated: boolean;
+  segments: SpeechSegment[];
+}
+
+/**
+ * Finds speech segments in mono audio samples
+ *
+ * @param samples - Mono PCM samples in the range -1 to 1
+ * @param sampleRate - Sample rate of the audio
+ * @returns Speech segments in milliseconds from the start of the audio
+ */
+export function detectSpeechSegments(samples: Float32Array, sampleRate: number): SpeechSegment[] {
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_MS / 1000));
+  const frameCount = Math.floor(samples.length / frameSize);
+  if (frameCount === 0) return [];
+
+  const energies = new Float32Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let i = frame * frameSize; i < (frame + 1) * frameSize; i++) {
+      sum += samples[i] * samples[i];
+    }
+    energies[frame] = Math.sqrt(sum / frameSize);
+  }
+
+  // Estimate the noise floor from the quietest tenth of the recording
+  const sorted = Array.from(energies).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  const threshold = Math.max(noiseFloor * NOISE_FLOOR_MULTIPLIER, MIN_SPEECH_RMS);
+
+  const segments: SpeechSegment[] = [];
+  let segmentStart: number | null = null;
+
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const isSpeech = frame < frameCount && energies[frame] >= threshold;
+    if (isSpeech && segmentStart === null) {
+      segmentStart = frame;
+    } else if (!isSpeech && segmentStart !== null) {
+      segments.push({ startMs: segmentStart * FRAME_MS, endMs: frame * FRAME_MS });
+      segmentStart = null;
+    }
+  }
+
+  // Bridge short silences, then drop bursts too short to be speech
+  const merged: SpeechSegment[] = [];
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1];
+    if (previous && segment.startMs - previous.endMs < MIN_PAUSE_MS) {
+      previous.endMs = segment.endMs;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged.filter(segment => segment.endMs - segment.startMs >= MIN_SPEECH_MS);
+}
+
+/**
+ * Assigns onset times to the transcript words. With one speech segment per word
+ * the segment starts are used; otherwise onsets are spread over the speaking time
+ * in proportion to word length.
+ */
+function estimateWordOnsets(words: string[], segments: SpeechSegment[]): { onsets: WordOnset[]; estimated: boolean } {
+  if (words.length === 0 || segments.length === 0) {
+    return { onsets: [], estimated: false };
+  }
+
+  if (words.length === segments.length) {
+    return {
+      onsets: words.map((word, index) => ({ word, onsetMs: segments[index].startMs })),
+      estimated: false,
+    };
+  }
+
+  const totalLength = words.reduce((sum, word) => sum + word.length, 0);
+  const speakingTime = segments.reduce((sum, segment) => sum + segment.endMs - segment.startMs, 0);
+
+  // Map an offset into the concatenated speech back to a time in the recording
+  const toRecordingTime = (speechOffset: number) => {
+    let remaining = speechOffset;
+    for (const segment of segments) {
+      const length = segment.endMs - segment.startMs;
+      if (remaining < length) return segment.startMs + remaining;
+      remaining -= length;
+    }
+    return segments[segments.length - 1].endMs;
+  };
+
+  let characters = 0;
+  const onsets = words.map(word => {
+    const onsetMs = Math.round(toRecordingTime(speakingTime * characters / totalLength));
+    characters += word.length;
+    return { word, onsetMs };
+  });
+
+  return { onsets, estimated: true };
+}
+
+/**
+ * Computes timing metrics from detected speech segments
+ *
+ * @param segments - Speech segments from detectSpeechSegments
+ * @param recordingDurationMs - Length of the recording
+ * @param promptToRecordingMs - Time between the end of the recall prompt and the start of the recording
+ * @param transcript - Recognized response, used for word onsets
+ * @returns The timing metrics
+ */
+export function computeSpeechTiming(
+  segments: SpeechSegment[],
+  recordingDurationMs: number,
+  promptToRecordingMs: number,
+  transcript: string
+): SpeechTimingMetrics {
+  const pauseDurationsMs = segments.slice(1).map((segment, index) => segment.startMs - segments[index].endMs);
+  const { onsets, estimated } = estimateWordOnsets(tokenize(transcript), segments);
+
+  return {
+    responseLatencyMs: segments.length > 0 ? Math.round(promptToRecordingMs + segments[0].startMs) : null,
+    speakingTimeMs: segments.reduce((sum, segment) => sum + segment.endMs - segment.startMs, 0),
+    pauseCount: pauseDurationsMs.length,
+    pauseDurationsMs,
+    recordingDurationMs: Math.round(recordingDurationMs),
+    wordOnsets: onsets,
+    wordOnsetsEstimated: estimated,
+    segments,
+  };
+}
+
+/**
+ * Decodes a recording and computes its speech timing metrics
+ *
+ * @param recording - Recorded recall response
+ * @param promptToRecordingMs - Time between the end of the recall prompt and the start of the recording
+ * @param transcript - Recognized response, used for word onsets
+ * @returns Promise with the timing metrics
+ */
+export async function analyzeRecallAudio(
+  recording: Blob,
+  promptToRecordingMs: number,
+  transcript: string
+): Promise<SpeechTimingMetrics> {
+  const audioContext = new (window.AudioContext || window.webkitAudioContext)();
+
+  try {
+    const buffer: AudioBuffer = await audioContext.decodeAudioData(await recording.arrayBuffer());
+
+    // Mix down to mono
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const channelData = buffer.getChannelData(channel);
+      for (let i = 0; i < buffer.length; i++) {
+        samples[i] += channelData[i] / buffer.numberOfChannels;
+      }
+    }
+
+    const segments = detectSpeechSegments(samples, buffer.sampleRate);
+    return computeSpeechTiming(segments, buffer.duration * 1000, promptToRecordingMs, transcript);
+  } finally {
+    audioContext.close();
+  }
+}
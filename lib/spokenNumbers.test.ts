@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { getLocaleBundle } from '@/lib/locales';
+import { parseSpokenNumbers } from './spokenNumbers';
+
+const parse = (text: string, locale: 'en' | 'nl' | 'de' | 'fr' = 'en') =>
+  parseSpokenNumbers(text, getLocaleBundle(locale).numbers);
+
+describe('parseSpokenNumbers', () => {
+  it('reads digits and number words', () => {
+    expect(parse('19th')).toEqual([19]);
+    expect(parse('the nineteenth')).toEqual([19]);
+    expect(parse('twenty six')).toEqual([26]);
+    expect(parse('two thousand and twenty six')).toEqual([2026]);
+    expect(parse('it is 2026')).toEqual([2026]);
+  });
+
+  it('reads "oh" as zero but "to" and "for" only as words', () => {
+    expect(parse('seven oh three')).toEqual([7, 0, 3]);
+    expect(parse('from one to three')).toEqual([1, 3]);
+    expect(parse('for twenty minutes')).toEqual([20]);
+  });
+
+  it('reads a pair of two-digit groups as a year', () => {
+    expect(parse('twenty twenty six')).toEqual([2026]);
+    expect(parse('twenty twenty-six')).toEqual([2026]);
+    expect(parse('nineteen ninety')).toEqual([1990]);
+    expect(parse('it is twenty twenty six I think')).toEqual([2026]);
+  });
+
+  it('reads longer runs as lists, not years', () => {
+    expect(parse('twenty nineteen eighteen seventeen')).toEqual([20, 19, 18, 17]);
+    expect(parse('ninety three eighty six seventy nine')).toEqual([93, 86, 79]);
+    expect(parse('ninety three, eighty six, seventy nine')).toEqual([93, 86, 79]);
+  });
+
+  it('does not join numbers across punctuation', () => {
+    expect(parse('ninety three, eighty six')).toEqual([93, 86]);
+    expect(parse('twenty. twenty six')).toEqual([20, 26]);
+  });
+
+  it('reads compound and paired numbers in other languages', () => {
+    expect(parse('zweitausendsechsundzwanzig', 'de')).toEqual([2026]);
+    expect(parse('deux mille vingt-six', 'fr')).toEqual([2026]);
+    expect(parse('quatre-vingt-dix-neuf', 'fr')).toEqual([99]);
+    expect(parse('negentien negentig', 'nl')).toEqual([1990]);
+  });
+});
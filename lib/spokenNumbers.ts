@@ -0,0 +1,188 @@
+/**
+ * Parsing of numbers in recognized speech.
+ *
+ * Recognizers return numbers as digits ("19th", "2026") or as words ("the
+ * nineteenth", "twenty twenty-six", "zweitausendsechsundzwanzig"). Number words
+ * come from a per-language lexicon; compound words are split into known parts,
+ * and ordinal endings are removed when the whole word is not known.
+ */
+
+import { tokenize } from '@/lib/wordMatching';
+
+export interface NumberLexicon {
+  // Cardinal number words and irregular ordinals, e.g. 'nineteen': 19, 'first': 1
+  words: Record<string, number>;
+  // Words that join number parts, e.g. 'and' or 'und' in 'sechsundzwanzig'
+  connectors: string[];
+  // Endings that turn a number word into an ordinal, e.g. 'th'
+  ordinalSuffixes: string[];
+  // Ordinal stems that differ from the cardinal, e.g. 'fif' in 'fifth'
+  ordinalStems: Record<string, number>;
+  // Spellings rewritten before parsing, e.g. 'quatre-vingt' to 'quatrevingt'
+  rewrites?: Record<string, string>;
+  // Years are said as two-digit pairs, e.g. 'nineteen ninety'
+  pairedYears: boolean;
+  // Words that sound like a digit and are only read as one in a digit series, e.g. 'to' for 2
+  digitHomophones?: Record<string, number>;
+}
+
+// A number part, or null for a connector
+type Part = number | null;
+
+const DIGITS = /^(\d+)\p{L}*$/u;
+
+/**
+ * Splits a word into known number parts, e.g. 'sechsundzwanzig' into 6, und, 20
+ */
+function splitCompound(word: string, parts: Record<string, Part>): Part[] | null {
+  if (word === '') return [];
+
+  // Longest part first; fall back to shorter ones when the rest cannot be split
+  const candidates = Object.keys(parts)
+    .filter(part => word.startsWith(part))
+    .sort((a, b) => b.length - a.length);
+  for (const candidate of candidates) {
+    const rest = splitCompound(word.slice(candidate.length), parts);
+    if (rest) return [parts[candidate], ...rest];
+  }
+  return null;
+}
+
+function parseWord(word: string, lexicon: NumberLexicon, parts: Record<string, Part>): Part[] | null {
+  const whole = splitCompound(word, parts);
+  if (whole) return whole;
+
+  for (const suffix of [...lexicon.ordinalSuffixes].sort((a, b) => b.length - a.length)) {
+    if (!word.endsWith(suffix) || word.length === suffix.length) continue;
+    const stem = word.slice(0, -suffix.length);
+    const stemParts = splitCompound(stem, { ...parts, ...lexicon.ordinalStems });
+    if (stemParts) return stemParts;
+  }
+  return null;
+}
+
+// True when a part below 100 can be added to the number so far: a unit after a
+// round ten from twenty ("twenty six"), a teen after sixty or eighty
+// ("soixante-dix", "quatre-vingt-dix-neuf"), or a round ten joined to a unit
+// ("sechsundzwanzig"). Anything else starts a new number, so counting ("ten
+// nine", "twenty nineteen") gives one number per word.
+function extendsNumber(current: number, value: number, joined: boolean): boolean {
+  const rest = current % 100;
+  if (rest === 0) return true;
+  if (value < 10) return rest >= 20 && rest % 10 === 0;
+  if (joined && rest < 10 && value % 10 === 0) return true;
+  return (rest === 60 || rest === 80) && value < 20;
+}
+
+/**
+ * Combines the parts of a run of number words; a part that cannot extend the
+ * number ("one two") starts the next number.
+ */
+function splitNumbers(parts: Part[]): number[] {
+  const numbers: number[] = [];
+  let total = 0;
+  let current = 0;
+  let started = false;
+  // The previous part was a connector
+  let joined = false;
+
+  const flush = () => {
+    if (started) numbers.push(total + current);
+    total = 0;
+    current = 0;
+    started = false;
+  };
+
+  for (const value of parts) {
+    if (value === null) {
+      joined = true;
+      continue;
+    }
+
+    if (value === 1000) {
+      total += (current || 1) * 1000;
+      current = 0;
+    } else if (value === 100) {
+      current = (current || 1) * 100;
+    } else if (started && (total + current === 0 || !extendsNumber(current, value, joined))) {
+      // A new number, also after a zero ("zero seven")
+      flush();
+      current = value;
+    } else {
+      current += value;
+    }
+    started = true;
+    joined = false;
+  }
+
+  flush();
+  return numbers;
+}
+
+const isTwoDigitGroup = (number: number) => number >= 10 && number < 100;
+
+/**
+ * Combines the parts of a run of number words. With paired years, a run of
+ * exactly two two-digit groups is a year ("nineteen ninety", "twenty
+ * twenty-six"); a longer run is a list ("twenty nineteen eighteen").
+ */
+function combineParts(parts: Part[], pairedYears: boolean): number[] {
+  const numbers = splitNumbers(parts);
+  if (pairedYears && numbers.length === 2 && numbers.every(isTwoDigitGroup)) {
+    return [numbers[0] * 100 + numbers[1]];
+  }
+  return numbers;
+}
+
+/**
+ * Finds the numbers in a transcript
+ *
+ * @param text - Recognized speech
+ * @param lexicon - Number words of the speech language
+ * @returns The numbers in the order they were said
+ */
+export function parseSpokenNumbers(text: string, lexicon: NumberLexicon): number[] {
+  let normalized = text.toLowerCase();
+  for (const [from, to] of Object.entries(lexicon.rewrites ?? {})) {
+    normalized = normalized.split(from).join(to);
+  }
+
+  const parts: Record<string, Part> = { ...lexicon.words };
+  for (const connector of lexicon.connectors) {
+    parts[connector] = null;
+  }
+
+  const numbers: number[] = [];
+  let run: Part[] = [];
+  const endRun = () => {
+    numbers.push(...combineParts(run, lexicon.pairedYears));
+    run = [];
+  };
+
+  // Punctuation ends a run, so a list ("ninety three, eighty six") is not a year
+  for (const clause of normalized.split(/[,;:.!?]/)) {
+    for (const token of tokenize(clause)) {
+      const digits = token.match(DIGITS);
+      if (digits) {
+        endRun();
+        numbers.push(Number(digits[1]));
+        continue;
+      }
+
+      const wordParts = parseWord(token, lexicon, parts);
+      if (!wordParts || wordParts.every(part => part === null)) {
+        // A connector between number words ("two thousand and six") continues the number
+        if (wordParts && run.length > 0) {
+          run.push(null);
+        } else {
+          endRun();
+        }
+        continue;
+      }
+      run.push(...wordParts);
+    }
+    endRun();
+  }
+
+  return numbers;
+}
@@ -0,0 +1,10 @@
+/**
+ * Test modes the application can administer
+ */
+
+export type TestMode = 'miniCog' | 'mis' | 'orientation' | 'digitSpan' | 'wordListLearning';
+
+export const TEST_MODES: TestMode[] = ['miniCog', 'mis', 'orientation', 'digitSpan', 'wordListLearning'];
+
+// How the answers are given: spoken and recognized, or typed
+export type AnswerModality = 'speech' | 'typed';
@@ -0,0 +1,92 @@
+/**
+ * Cancellation of a running test session.
+ *
+ * A session carries an AbortSignal to everything it starts: speech synthesis
+ * requests and playback, timers and speech recognition. Cancelling it, e.g.
+ * when the test is restarted or the page is left, stops all of them at once and
+ * rejects whatever the session is waiting for with an AbortError.
+ */
+
+export interface TestSession {
+  readonly signal: AbortSignal;
+  // Stops the session; calling it again does nothing
+  cancel(): void;
+  // Resolves after the duration, or rejects when the session is cancelled first
+  wait(durationMs: number): Promise<void>;
+}
+
+/**
+ * Returns the error that cancelled work rejects with
+ */
+export function abortError(): DOMException {
+  return new DOMException('The test session was cancelled', 'AbortError');
+}
+
+/**
+ * Returns true when an error comes from cancelled work
+ *
+ * @param error - Caught error
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error instanceof Error || error instanceof DOMException) && error.name === 'AbortError';
+}
+
+/**
+ * Waits for a duration
+ *
+ * @param durationMs - Time to wait
+ * @param signal - Cancels the wait
+ * @returns Promise that resolves after the duration, or rejects with an AbortError when cancelled
+ */
+export function delay(durationMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, durationMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Waits for a promise that has no cancellation of its own, e.g. one shared
+ * with other callers or settled by the user
+ *
+ * @param promise - The promise to wait for
+ * @param signal - Stops the wait; the promise itself keeps running
+ * @returns Promise with the outcome of the promise, or rejected with an AbortError when cancelled first
+ */
+export function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Creates a session that can be cancelled
+ *
+ * @returns The session
+ */
+export function createTestSession(): TestSession {
+  const controller = new AbortController();
+
+  return {
+    signal: controller.signal,
+    cancel: () => controller.abort(),
+    wait: durationMs => delay(durationMs, controller.signal),
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Text-to-speech provider interface and registry
+ *
+ * speakWithFallback walks the registered providers in priority order until
+ * one of them succeeds, so new providers can be added without touching the
+ * retry loop.
+ */
+
+export interface TtsCapabilities {
+  // Provider returns encoded audio for playAudio; otherwise it speaks directly
+  returnsAudio: boolean;
+  // Provider calls a remote service and is worth retrying on failure
+  requiresNetwork: boolean;
+  // Voice identifiers the provider accepts, if it exposes a list
+  voices?: string[];
+}
+
+export interface TtsOptions {
+  voice?: string;
+  // Provider the voice belongs to; the others use their default voice. Without it every provider gets the voice
+  voiceProvider?: string;
+  // BCP 47 language tag of the text, e.g. 'de-DE'
+  locale?: string;
+  // Speaking rate, 1 is normal; audio from a provider is played faster or slower, which also shifts its pitch
+  rate?: number;
+  // Voice pitch, 1 is normal; only speech synthesized by the browser can change it
+  pitch?: number;
+  // Playback volume from 0 to 1 (default 1); it does not change the synthesized audio
+  volume?: number;
+  // Cancels the request and stops the playback, e.g. when the test session ends
+  signal?: AbortSignal;
+}
+
+export interface TtsProvider {
+  name: string;
+  capabilities: TtsCapabilities;
+  /**
+   * Synthesizes the text
+   *
+   * @returns Audio data for playback, or null when the provider already spoke the text
+   */
+  synthesize(text: string, options?: TtsOptions): Promise<ArrayBuffer | null>;
+}
+
+interface RegisteredProvider {
+  provider: TtsProvider;
+  priority: number;
+}
+
+const DEFAULT_PRIORITY = 100;
+
+const registry = new Map<string, RegisteredProvider>();
+
+/**
+ * Registers a provider, replacing any provider with the same name
+ *
+ * @param provider - The provider to register
+ * @param priority - Lower values are tried first
+ */
+export function registerTtsProvider(provider: TtsProvider, priority = DEFAULT_PRIORITY): void {
+  registry.set(provider.name, { provider, priority });
+}
+
+/**
+ * Removes a provider from the registry
+ *
+ * @param name - Name of the provider to remove
+ */
+export function unregisterTtsProvider(name: string): void {
+  registry.delete(name);
+}
+
+/**
+ * Reorders the registry so the named providers are tried first, in the given order.
+ * Providers that are not named keep their relative order after the named ones.
+ *
+ * @param names - Provider names in the desired order
+ */
+export function setTtsProviderOrder(names: string[]): void {
+  const unnamed = getTtsProviders().filter(provider => !names.includes(provider.name));
+
+  names.forEach((name, index) => {
+    const entry = registry.get(name);
+    if (entry) {
+      entry.priority = index;
+    } else {
+      console.warn(`Unknown TTS provider in order: ${name}`);
+    }
+  });
+
+  unnamed.forEach((provider, index) => {
+    registry.get(provider.name)!.priority = names.length + index;
+  });
+}
+
+/**
+ * Returns the priority of a registered provider
+ *
+ * @param name - Name of the provider
+ * @returns The priority, or undefined when no provider has that name
+ */
+export function getTtsProviderPriority(name: string): number | undefined {
+  return registry.get(name)?.priority;
+}
+
+/**
+ * Returns the registered providers, highest priority first
+ */
+export function getTtsProviders(): TtsProvider[] {
+  return Array.from(registry.values())
+    .sort((a, b) => a.priority - b.priority)
+    .map(entry => entry.provider);
+}
+
+/**
+ * Creates a provider for a local or self-hosted HTTP TTS server.
+ * The server receives `{ text, voice, locale }` as JSON and answers with audio bytes.
+ *
+ * @param name - Registry name of the provider
+ * @param url - Endpoint of the TTS server
+ * @returns The provider
+ */
+export function createHttpTtsProvider(name: string, url: string): TtsProvider {
+  return {
+    name,
+    capabilities: { returnsAudio: true, requiresNetwork: true },
+    async synthesize(text, options) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text, voice: options?.voice, locale: options?.locale }),
+        signal: options?.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`${name} request failed: Status: ${response.status} ${response.statusText}`);
+      }
+
+      return await response.arrayBuffer();
+    },
+  };
+}
+
+/**
+ * Creates a provider that plays pre-recorded clips for known utterances
+ *
+ * @param name - Registry name of the provider
+ * @param clips - Map from utterance text to audio file URL
+ * @returns The provider
+ */
+export function createClipTtsProvider(name: string, clips: Record<string, string>): TtsProvider {
+  return {
+    name,
+    capabilities: { returnsAudio: true, requiresNetwork: false },
+    async synthesize(text, options) {
+      const clipUrl = clips[text];
+      if (!clipUrl) {
+        throw new Error(`No recorded clip for: ${text}`);
+      }
+
+      const response = await fetch(clipUrl, { signal: options?.signal });
+      if (!response.ok) {
+        throw new Error(`Failed to load clip ${clipUrl}: Status: ${response.status}`);
+      }
+
+      return await response.arrayBuffer();
+    },
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Scoring for the CERAD-style word list learning test: a 10-word list learned
+ * over three trials, a delayed recall after a filled interval and a yes/no
+ * recognition trial.
+ */
+
+import { RecallMatchReport, tokenize } from '@/lib/wordMatching';
+
+export const LEARNING_TRIALS = 3;
+
+export interface RecognitionAnswer {
+  word: string;
+  isTarget: boolean;
+  // true for yes, false for no, null when the answer was not understood
+  answer: boolean | null;
+  transcript: string;
+}
+
+export interface WordListLearningScore {
+  trialScores: number[];
+  trialTotal: number;
+  // Words gained per trial, least-squares slope over the learning trials
+  learningSlope: number;
+  delayedRecall: number;
+  // Delayed recall as a percentage of the last learning trial, null when that trial was 0
+  savingsPercent: number | null;
+  recognitionHits: number;
+  recognitionCorrectRejections: number;
+  // Percentage of recognition items answered correctly
+  recognitionDiscriminability: number;
+}
+
+/**
+ * Returns a shuffled copy of the items
+ *
+ * @param items - Items to shuffle
+ * @returns New array in random order
+ */
+export function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Interprets a spoken yes/no answer
+ *
+ * @param transcript - The recognized answer
+ * @param yesWords - Words that mean yes in the test language
+ * @param noWords - Words that mean no in the test language
+ * @returns true for yes, false for no, null when neither was heard
+ */
+export function parseYesNo(transcript: string, yesWords: string[], noWords: string[]): boolean | null {
+  for (const token of tokenize(transcript)) {
+    if (yesWords.includes(token)) return true;
+    if (noWords.includes(token)) return false;
+  }
+  return null;
+}
+
+/**
+ * Least-squares slope of the scores against trial number
+ */
+function learningSlope(scores: number[]): number {
+  if (scores.length < 2) return 0;
+
+  const meanTrial = (scores.length + 1) / 2;
+  const meanScore = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+
+  let covariance = 0;
+  let variance = 0;
+  scores.forEach((score, index) => {
+    const trial = index + 1;
+    covariance += (trial - meanTrial) * (score - meanScore);
+    variance += (trial - meanTrial) ** 2;
+  });
+
+  return covariance / variance;
+}
+
+/**
+ * Scores a completed word list learning session
+ *
+ * @param trialReports - Match reports of the immediate recall after each learning trial
+ * @param delayedReport - Match report of the delayed recall
+ * @param recognitionAnswers - Answers of the recognition trial
+ * @returns The session scores
+ */
+export function scoreWordListLearning(
+  trialReports: RecallMatchReport[],
+  delayedReport: RecallMatchReport,
+  recognitionAnswers: RecognitionAnswer[]
+): WordListLearningScore {
+  const trialScores = trialReports.map(report => report.score);
+  const lastTrial = trialScores[trialScores.length - 1] || 0;
+
+  const recognitionHits = recognitionAnswers.filter(item => item.isTarget && item.answer === true).length;
+  const recognitionCorrectRejections = recognitionAnswers.filter(item => !item.isTarget && item.answer === false).length;
+
+  return {
+    trialScores,
+    trialTotal: trialScores.reduce((sum, score) => sum + score, 0),
+    learningSlope: Math.round(learningSlope(trialScores) * 100) / 100,
+    delayedRecall: delayedReport.score,
+    savingsPercent: lastTrial > 0 ? Math.round(delayedReport.score / lastTrial * 100) : null,
+    recognitionHits,
+    recognitionCorrectRejections,
+    recognitionDiscriminability: recognitionAnswers.length > 0
+      ? Math.round((recognitionHits + recognitionCorrectRejections) / recognitionAnswers.length * 100)
+      : 0,
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { matchRecalledWords, normalizeWord } from './wordMatching';
+
+const matchTypes = (targetWords: string[], transcript: string, language = 'en') =>
+  matchRecalledWords(targetWords, transcript, language).matches.map(match => match.matchType);
+
+describe('normalizeWord', () => {
+  it('strips English plural and possessive endings', () => {
+    expect(normalizeWord('pennies', 'en')).toBe('penny');
+    expect(normalizeWord('watches', 'en')).toBe('watch');
+    expect(normalizeWord('apples', 'en')).toBe('apple');
+    expect(normalizeWord("baby's", 'en')).toBe('baby');
+    expect(normalizeWord('glasses', 'en')).toBe(normalizeWord('glass', 'en'));
+  });
+
+  it('leaves words of other languages unchanged', () => {
+    expect(normalizeWord('haus', 'de')).toBe('haus');
+    expect(normalizeWord('fils', 'fr')).toBe('fils');
+    expect(normalizeWord('appels', 'nl')).toBe('appels');
+  });
+});
+
+describe('matchRecalledWords', () => {
+  it('matches spelling, inflection and split compounds exactly', () => {
+    expect(matchTypes(['Apple', 'Watch', 'Penny'], 'apples the watch and pennies')).toEqual(['exact', 'exact', 'exact']);
+    expect(matchTypes(['Sunset', 'Red Cross'], 'sun set and the red cross')).toEqual(['exact', 'exact']);
+  });
+
+  it('matches words that sound alike and are spelled almost the same', () => {
+    expect(matchTypes(['Banana', 'Finger', 'Paper'], 'bananna fingar papper')).toEqual(['phonetic', 'phonetic', 'phonetic']);
+    expect(matchTypes(['Telegram', 'Checkers'], 'telegrahm chekkers')).toEqual(['phonetic', 'phonetic']);
+  });
+
+  it.each([
+    ['Table', 'cable'],
+    ['Chair', 'chain'],
+    ['Village', 'pillage'],
+    ['Banana', 'bandana'],
+    ['Glasses', 'classes'],
+    ['River', 'liver'],
+    ['Baby', 'puppy'],
+    ['Leader', 'ladder'],
+    ['Season', 'reason'],
+    ['Nation', 'station'],
+  ])('does not take a different word for %s (%s)', (target, heard) => {
+    expect(matchTypes([target], heard)).toEqual(['missed']);
+  });
+
+  it('lets each spoken word count for one target only', () => {
+    const report = matchRecalledWords(['Apple', 'Apple'], 'apple', 'en');
+    expect(report.score).toBe(1);
+  });
+
+  it('does not strip English endings from other languages', () => {
+    expect(matchTypes(['Haus'], 'hau', 'de')).toEqual(['missed']);
+    expect(matchTypes(['Fil'], 'fils', 'fr')).toEqual(['missed']);
+    expect(matchTypes(['Appel'], 'appel', 'nl')).toEqual(['exact']);
+  });
+});
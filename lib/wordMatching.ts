@@ -0,0 +1,186 @@
+/**
+ * Matching of recalled words against the presented word list.
+ *
+ * Speech recognizers often return inflected or misheard forms ("pennies" for
+ * "Penny", "sun set" for "Sunset"), so each target word is matched against the
+ * transcript tokens in two passes: first on normalized spelling, then on
+ * Double Metaphone codes with a close spelling. A different word that is only
+ * spelled alike ("cable" for "Table") is not a match.
+ */
+
+import { doubleMetaphone } from 'double-metaphone';
+
+export type WordMatchType = 'exact' | 'phonetic' | 'missed';
+
+export interface WordMatch {
+  word: string;
+  matchType: WordMatchType;
+  // The part of the transcript that matched, or null when missed
+  heardAs: string | null;
+}
+
+export interface RecallMatchReport {
+  matches: WordMatch[];
+  score: number;
+}
+
+interface Candidate {
+  text: string;
+  normalized: string;
+  tokenIndices: number[];
+}
+
+/**
+ * Splits text into lowercase word tokens on word boundaries
+ *
+ * @param text - Text to split
+ * @returns The word tokens
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+}
+
+/**
+ * Reduces an English word to a simple stem by removing plural and possessive
+ * endings. Words of other languages are returned unchanged.
+ *
+ * @param word - Lowercase word
+ * @param language - Language code of the word, e.g. 'en'
+ * @returns The normalized word
+ */
+export function normalizeWord(word: string, language: string): string {
+  if (language !== 'en') return word;
+
+  let stem = word.replace(/'s?$/, '');
+
+  if (stem.length > 4 && stem.endsWith('ies')) {
+    stem = stem.slice(0, -3) + 'y';
+  } else if (stem.length > 4 && /(ss|x|z|ch|sh)es$/.test(stem)) {
+    stem = stem.slice(0, -2);
+  } else if (stem.length > 3 && stem.endsWith('s') && !stem.endsWith('ss')) {
+    stem = stem.slice(0, -1);
+  }
+
+  // Treat "glasses" and "glass" as the same word
+  if (stem.length > 4 && stem.endsWith('ss')) {
+    stem = stem.slice(0, -1);
+  }
+
+  return stem;
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Number of single-character insertions, deletions or substitutions
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Returns true when two normalized words sound alike and are spelled almost the same.
+ * The spelling check keeps loosely coded words ("baby" / "puppy", "glasses" /
+ * "classes", "leader" / "ladder") apart.
+ */
+function isPhoneticMatch(target: string, heard: string): boolean {
+  const [targetPrimary, targetSecondary] = doubleMetaphone(target);
+  const [heardPrimary, heardSecondary] = doubleMetaphone(heard);
+
+  const codesMatch = [heardPrimary, heardSecondary].some(
+    code => code.length > 0 && (code === targetPrimary || code === targetSecondary)
+  );
+
+  // Same first letter, and one edit per four letters with at least one
+  return codesMatch
+    && target[0] === heard[0]
+    && editDistance(target, heard) <= Math.max(1, Math.floor(target.length / 4));
+}
+
+/**
+ * Builds the transcript candidates: every token, and every pair of adjacent
+ * tokens joined together so "sun set" can match "Sunset"
+ */
+function buildCandidates(tokens: string[], language: string): Candidate[] {
+  const candidates: Candidate[] = tokens.map((token, index) => ({
+    text: token,
+    normalized: normalizeWord(token, language),
+    tokenIndices: [index],
+  }));
+
+  for (let i = 0; i < tokens.length - 1; i++) {
+    candidates.push({
+      text: `${tokens[i]} ${tokens[i + 1]}`,
+      normalized: normalizeWord(tokens[i] + tokens[i + 1], language),
+      tokenIndices: [i, i + 1],
+    });
+  }
+
+  return candidates;
+}
+
+// Multi-word targets such as "Red Cross" are compared with adjacent token pairs
+function normalizeTarget(word: string, language: string): string {
+  return normalizeWord(tokenize(word).join(''), language);
+}
+
+/**
+ * Matches the presented words against a recall transcript.
+ * Each transcript token can satisfy at most one target word.
+ *
+ * @param targetWords - The words the patient was asked to remember
+ * @param transcript - What the recognizer heard
+ * @param language - Language code of the words, e.g. 'en'
+ * @returns Per-word match details and the number of words recalled
+ */
+export function matchRecalledWords(targetWords: string[], transcript: string, language: string): RecallMatchReport {
+  const candidates = buildCandidates(tokenize(transcript), language);
+  const usedTokens = new Set<number>();
+  const matches: WordMatch[] = targetWords.map(word => ({ word, matchType: 'missed', heardAs: null }));
+
+  const isAvailable = (candidate: Candidate) =>
+    candidate.tokenIndices.every(index => !usedTokens.has(index));
+
+  const claim = (match: WordMatch, candidate: Candidate, matchType: WordMatchType) => {
+    match.matchType = matchType;
+    match.heardAs = candidate.text;
+    candidate.tokenIndices.forEach(index => usedTokens.add(index));
+  };
+
+  // Exact pass first, so a phonetic match cannot take a token another word matches exactly
+  matches.forEach(match => {
+    const target = normalizeTarget(match.word, language);
+    const candidate = candidates.find(c => isAvailable(c) && c.normalized === target);
+    if (candidate) {
+      claim(match, candidate, 'exact');
+    }
+  });
+
+  matches.forEach(match => {
+    if (match.matchType !== 'missed') return;
+
+    const target = normalizeTarget(match.word, language);
+    const candidate = candidates.find(c => isAvailable(c) && isPhoneticMatch(target, c.normalized));
+    if (candidate) {
+      claim(match, candidate, 'phonetic');
+    }
+  });
+
+  return {
+    matches,
+    score: matches.filter(match => match.matchType !== 'missed').length,
+  };
+}